@@ -1,27 +1,106 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import mqtt from 'mqtt';
-import { AppState, Zone, User, Message, MediaType, RoomType } from './types';
+import { AppState, Zone, ZoneSettings, User, Message, MessageDelivery, MessageReference, MediaDescriptor, MediaTransferState, MediaType, RoomType, ConnectionStatus, BrokerHealth, ModerationAction, ModerationState, LeaveReason, ReactionRecord, RosterEntry } from './types';
 import { 
   RADIUS_KM, 
   SESSION_DURATION_MS, 
   COLORS, 
-  DISCOVERY_TOPIC,
-  DISCOVERY_REQ_TOPIC,
   DISCOVERY_PULSE_INTERVAL_MS,
-  LOCATION_CHECK_INTERVAL_MS
+  LOCATION_CHECK_INTERVAL_MS,
+  GEOFENCE_GRACE_MS,
+  REACTION_EMOJIS,
+  HISTORY_PAGE_SIZE,
+  HISTORY_WINDOW_SIZE,
+  EXPIRY_WARNING_MS,
+  SESSION_EXTENSION_MS,
+  MAX_SESSION_LIFETIME_MS,
+  RATE_LIMITS,
+  JOIN_NOTICE_LIMIT,
+  HISTORY_ANSWER_LIMIT,
+  MEDIA_RESEND_LIMIT,
+  MAX_HANDLE_LENGTH,
+  RATE_LIMIT_MEDIA_COST,
+  FLOOD_STRIKE_LIMIT,
+  FLOOD_STRIKE_WINDOW_MS,
+  FLOOD_MUTE_MS,
+  FLOOD_NOTICE_INTERVAL_MS
 } from './constants';
-import { calculateDistance, getCurrentPosition } from './utils/location';
+import { distanceToGeocell, encodeGeohash, getCurrentPosition, getGeocellPrecision, isValidGeocell, isWithinGeocellReach } from './utils/location';
+import {
+  ZoneKeys,
+  deriveZoneKeys,
+  randomToken,
+  signChallenge,
+  verifyChallenge,
+  generateHostKeyPair,
+  importHostPublicKey,
+  signControl,
+  verifyControl,
+  RoomKeyError,
+  WireVersionError,
+  SessionIdentity,
+  signMessage,
+  verifyMessage,
+  signAsMember,
+  verifyMemberSignature
+} from './utils/crypto';
+import { applyReaction, mergeReactions, selectHistoryPage } from './utils/messages';
+import { TokenBucket, createBucket, msUntilTokens, takeTokens } from './utils/rateLimit';
+import { getTranslator } from './services/translationService';
 import { soundService } from './services/soundService';
+import { displayHandle, localRules, screenHandle, screenIncoming } from './services/moderationService';
+import { RoomClient } from './services/roomClient';
+import { MediaTransferManager } from './services/mediaTransfer';
+import { isMediaAllowed, isWithinMediaLimit, getMaxMediaSizeMb } from './utils/media';
+import { BrokerConfig, getEnvBrokerConfig } from './services/brokerConfig';
+import { AuthEvent, HistoryRequestEvent, HostHandoverEvent, LeaveEvent, MAX_RECEIPT_IDS, MemberSigned, ModerationEvent, PresenceEvent, RoomEvent, SessionExtendEvent, SignedControl, ZoneRestartEvent } from './services/roomProtocol';
 import JoinScreen from './components/JoinScreen';
 import ChatRoom from './components/ChatRoom';
 import Header from './components/Header';
 import Footer from './components/Footer';
-
-const FINGERPRINT = Math.random().toString(36).substr(2, 12);
+import GeofenceWarning from './components/GeofenceWarning';
+import BrokerSettings from './components/BrokerSettings';
+import ModerationPanel from './components/ModerationPanel';
+import RosterDrawer from './components/RosterDrawer';
+import ExpiryWarning from './components/ExpiryWarning';
 
 const TYPING_EXPIRY_MS = 4000;
 const PRESENCE_HEARTBEAT_MS = 10000; 
+// Members silent for three missed heartbeats are dropped from the roster.
+const PRESENCE_TIMEOUT_MS = PRESENCE_HEARTBEAT_MS * 3;
+const PRESENCE_REPLY_THROTTLE_MS = 2000;
+const JOIN_PROOF_TIMEOUT_MS = 8000;
+// How long a deep-linked join waits for the host's pulse before giving up.
+const ZONE_PULSE_WAIT_MS = 5000;
+const CONTROL_EVENT_MAX_AGE_MS = 60000;
+// A pinned host key for a listed zone may only be replaced once its host has been silent this long.
+const HOST_SILENCE_MS = DISCOVERY_PULSE_INTERVAL_MS * 3;
+type FloodKind = keyof typeof RATE_LIMITS;
+
+const EMPTY_MODERATION: ModerationState = { banned: [], mutedUntil: {} };
+// Members other than the host only answer history requests when the host is gone, after a random
+// delay, and stay quiet if another member answered first.
+const HISTORY_BACKOFF_MS = 1500;
+const HISTORY_MAX_PAGES = Math.ceil(HISTORY_WINDOW_SIZE / HISTORY_PAGE_SIZE);
+// An outbox publish the broker has not acknowledged by then is retried on the next reconnect.
+const OUTBOX_ACK_TIMEOUT_MS = 10000;
+
+type AccessVerdict = 'granted' | 'denied' | 'timeout';
+
+interface RoomHandlers {
+  handleRoomEvent: (event: RoomEvent) => void;
+  handleRoomPayloadError: (err: unknown) => void;
+  handleDiscoveryPulse: (zone: Zone) => void;
+  handleAuthEvent: (zoneId: string, event: AuthEvent) => void;
+  broadcastHostZone: () => void;
+  broadcastPresence: () => void;
+  flushOutbox: () => void;
+  requestHistory: () => void;
+}
+
+interface AppProps {
+  identity: SessionIdentity;
+}
 
 interface LoadingState {
   active: boolean;
@@ -29,7 +108,8 @@ interface LoadingState {
   subMessage?: string;
 }
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ identity }) => {
+  const FINGERPRINT = identity.fingerprint;
   const [state, setState] = useState<AppState>({
     currentZone: null,
     currentUser: null,
@@ -37,15 +117,37 @@ const App: React.FC = () => {
     isHost: false,
     messages: [],
     isInRange: true,
+    rangeBreachSince: null,
     distance: null,
     timeLeft: SESSION_DURATION_MS,
     typingUsers: {},
+    moderation: EMPTY_MODERATION,
+    roster: {},
     availableRooms: [],
     userFingerprint: FINGERPRINT,
   });
 
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'reconnecting' | 'offline'>('offline');
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('offline');
+  const [brokerHealth, setBrokerHealth] = useState<BrokerHealth | null>(null);
+  const [brokerConfig, setBrokerConfig] = useState<BrokerConfig>(getEnvBrokerConfig);
+  const [showBrokerSettings, setShowBrokerSettings] = useState(false);
   const [showExitConfirm, setShowExitConfirm] = useState(false);
+  const [showCloseConfirm, setShowCloseConfirm] = useState(false);
+  const [showModeration, setShowModeration] = useState(false);
+  const [showRoster, setShowRoster] = useState(false);
+  // expiresAt of the zone whose expiry warning was dismissed; an extension brings it back later.
+  const [expiryDismissedFor, setExpiryDismissedFor] = useState<number | null>(null);
+  const [expiredZoneName, setExpiredZoneName] = useState<string | null>(null);
+  const [mediaTransfers, setMediaTransfers] = useState<Record<string, MediaTransferState>>({});
+  // Every handle seen per fingerprint, kept after members leave so sanctions can still name them.
+  const [memberHandles, setMemberHandles] = useState<Record<string, string>>({});
+  const [delivery, setDelivery] = useState<Record<string, MessageDelivery>>({});
+  // Incoming messages the local moderation rules flagged, with the reason; ChatRoom blurs them.
+  const [flagged, setFlagged] = useState<Record<string, string>>({});
+  // Target language for translating incoming messages, kept for the whole session across zones; null (the default) is off.
+  const [preferredLanguage, setPreferredLanguage] = useState<string | null>(null);
+  // Private zone whose decrypted content the user agreed to send to remote services (translation, captions, summaries).
+  const [remoteConsentZone, setRemoteConsentZone] = useState<string | null>(null);
   const [roomPassword, setRoomPassword] = useState<string>('');
   const [unreadCount, setUnreadCount] = useState(0);
   const [pendingZone, setPendingZone] = useState<Zone | null>(null);
@@ -53,16 +155,74 @@ const App: React.FC = () => {
   
   const [loading, setLoading] = useState<LoadingState>({ active: false, message: '' });
 
-  const mqttClientRef = useRef<any>(null);
+  const roomClientRef = useRef<RoomClient | null>(null);
+  const mediaManagerRef = useRef<MediaTransferManager | null>(null);
+  // Listeners are bound once to the long-lived client; they route through this ref to reach the latest handlers.
+  const handlersRef = useRef<RoomHandlers | null>(null);
   const stateRef = useRef(state);
-  const activeMembersRef = useRef<Set<string>>(new Set([FINGERPRINT]));
+  const userLocationRef = useRef(userLocation);
+  const lastPresenceAtRef = useRef(0);
+  // issuedAt of the newest presence or leave accepted per member; anything older is a replay.
+  const memberClockRef = useRef<Map<string, number>>(new Map());
+  // Presence seen before this time comes from members who were already here; no join notice for them.
+  const rosterSettledAtRef = useRef(0);
   const typingTimeoutRef = useRef<any>(null);
+  // Key set for the current private zone; null for public zones.
+  const zoneKeysRef = useRef<ZoneKeys | null>(null);
+  const keyMismatchNotifiedRef = useRef(false);
+  // Host signing key for the zone this tab created; null for members.
+  const hostSigningKeyRef = useRef<CryptoKey | null>(null);
+  const hostVerifyKeyRef = useRef<{ publicKey: string; key: CryptoKey } | null>(null);
+  // Set once this tab has taken over hosting; the handover is re-announced with every pulse
+  // so members whose roster lagged behind at the time still catch up.
+  const handoverRef = useRef<{ previousHostId: string } | null>(null);
+  const takingOverRef = useRef(false);
+  // Last accepted discovery pulse per zone ID.
+  const beaconSeenAtRef = useRef<Map<string, number>>(new Map());
+  // Signed bans and mutes in force, replayed to latecomers with history.
+  const moderationLogRef = useRef<ModerationEvent[]>([]);
+  // Zones this session was banned from; rejoining them is refused locally.
+  const bannedZonesRef = useRef<Set<string>>(new Set());
+  // Our own messages not yet acknowledged by the broker, oldest first.
+  const outboxRef = useRef<Message[]>([]);
+  const flushingRef = useRef(false);
+  // Ids of other members' messages we already sent a read receipt for.
+  const receiptsSentRef = useRef<Set<string>>(new Set());
+  // Our latest history request and how many pages it has pulled so far.
+  const historyRequestRef = useRef<{ requestId: string; pages: number } | null>(null);
+  // Replies to other members' history requests waiting out their backoff, by request id.
+  const historyRepliesRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  // Pending join challenges, keyed by nonce.
+  const authWaitersRef = useRef<Map<string, (proof: string) => void>>(new Map());
+  // Joins waiting for a zone's discovery pulse, keyed by zone ID.
+  const pulseWaitersRef = useRef<Map<string, (zone: Zone) => void>>(new Map());
+  // Per-sender flood state: token buckets by event kind and recent dropped messages.
+  const floodRef = useRef<Map<string, { buckets: Partial<Record<FloodKind, TokenBucket>>; drops: number[]; noticedAt: number }>>(new Map());
+  // Senders muted by this client for flooding, until the given time. Unlike host mutes, nobody else sees these.
+  const localMutesRef = useRef<Record<string, number>>({});
+  // Our own buckets, so honest traffic never trips other members' limits.
+  const sendBucketsRef = useRef<Record<FloodKind, TokenBucket>>({
+    message: createBucket(RATE_LIMITS.message),
+    typing: createBucket(RATE_LIMITS.typing),
+    reaction: createBucket(RATE_LIMITS.reaction),
+    presence: createBucket(RATE_LIMITS.presence),
+    receipt: createBucket(RATE_LIMITS.receipt),
+    media_req: createBucket(RATE_LIMITS.media_req),
+    history_req: createBucket(RATE_LIMITS.history_req),
+  });
+  const joinNoticesRef = useRef<TokenBucket>(createBucket(JOIN_NOTICE_LIMIT));
+  const historyAnswersRef = useRef<TokenBucket>(createBucket(HISTORY_ANSWER_LIMIT));
+  const mediaResendsRef = useRef<TokenBucket>(createBucket(MEDIA_RESEND_LIMIT));
   const appRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
+  useEffect(() => {
+    userLocationRef.current = userLocation;
+  }, [userLocation]);
+
   useEffect(() => {
     const updateLocation = async () => {
       try {
@@ -71,9 +231,16 @@ const App: React.FC = () => {
         const lng = pos.coords.longitude;
         setUserLocation({ lat, lng });
 
-        if (stateRef.current.currentZone) {
-          const d = calculateDistance(lat, lng, stateRef.current.currentZone.center.lat, stateRef.current.currentZone.center.lng);
-          setState(prev => ({ ...prev, distance: d }));
+        const zone = stateRef.current.currentZone;
+        if (zone?.geocell) {
+          const d = distanceToGeocell(lat, lng, zone.geocell);
+          const inRange = isWithinGeocellReach(lat, lng, zone.geocell, zone.radiusKm);
+          setState(prev => ({
+            ...prev,
+            distance: d,
+            isInRange: inRange,
+            rangeBreachSince: inRange ? null : (prev.rangeBreachSince ?? Date.now()),
+          }));
         }
       } catch (e) {
         console.warn("Location access denied or unavailable.");
@@ -90,6 +257,9 @@ const App: React.FC = () => {
     const zId = params.get('zoneId');
     const zName = params.get('n');
     const zType = params.get('t') as RoomType;
+    const rawCell = params.get('g') || '';
+    // An invalid cell is dropped; the join then waits for the host's pulse to supply one.
+    const zCell = isValidGeocell(rawCell) ? rawCell : '';
 
     if (zId && zName && zType) {
       setPendingZone({
@@ -97,10 +267,13 @@ const App: React.FC = () => {
         name: decodeURIComponent(zName),
         type: zType,
         hostId: 'remote',
-        center: { lat: 0, lng: 0 },
+        geocell: zCell,
         createdAt: Date.now(),
         expiresAt: Date.now() + SESSION_DURATION_MS,
-        userCount: 1
+        userCount: 1,
+        radiusKm: RADIUS_KM,
+        memberCap: null,
+        mediaPolicy: 'all'
       });
     }
   }, []);
@@ -109,22 +282,31 @@ const App: React.FC = () => {
     if (!state.currentZone) return;
 
     const interval = setInterval(() => {
-      setState(prev => {
-        if (!prev.currentZone) return prev;
-        const remaining = prev.currentZone.expiresAt - Date.now();
-        if (remaining <= 0) {
-          clearInterval(interval);
-          alert("Session expired. This zone has been decommissioned.");
-          setTimeout(handleExit, 0);
-          return { ...prev, timeLeft: 0 };
-        }
-        return { ...prev, timeLeft: remaining };
-      });
+      const zone = stateRef.current.currentZone;
+      if (!zone) return;
+      const remaining = zone.expiresAt - Date.now();
+      if (remaining <= 0) {
+        clearInterval(interval);
+        handleExit(null).then(() => setExpiredZoneName(zone.name));
+        return;
+      }
+      setState(prev => prev.currentZone ? { ...prev, timeLeft: prev.currentZone.expiresAt - Date.now() } : prev);
     }, 1000);
 
     return () => interval && clearInterval(interval);
   }, [state.currentZone?.id]);
 
+  // Geofence: a breach that outlasts the grace period ejects the user and tells the room why.
+  useEffect(() => {
+    if (!state.currentZone || state.rangeBreachSince === null) return;
+    const deadline = state.rangeBreachSince + GEOFENCE_GRACE_MS;
+    const timer = setTimeout(async () => {
+      await handleExit('radius');
+      alert("You left the zone radius. Connection terminated.");
+    }, Math.max(0, deadline - Date.now()));
+    return () => clearTimeout(timer);
+  }, [state.currentZone?.id, state.rangeBreachSince]);
+
   useEffect(() => {
     const interval = setInterval(() => {
       const now = Date.now();
@@ -145,8 +327,7 @@ const App: React.FC = () => {
           if (isExpired) return false;
           
           if (currentLocation) {
-            const dist = calculateDistance(currentLocation.lat, currentLocation.lng, room.center.lat, room.center.lng);
-            return dist <= RADIUS_KM;
+            return isWithinGeocellReach(currentLocation.lat, currentLocation.lng, room.geocell, room.radiusKm);
           }
           return true;
         });
@@ -162,91 +343,508 @@ const App: React.FC = () => {
     return () => interval && clearInterval(interval);
   }, [userLocation]);
 
-  const broadcastHostZone = () => {
-    if (!stateRef.current.isHost || !stateRef.current.currentZone || !mqttClientRef.current) return;
-    const currentCount = Math.max(1, activeMembersRef.current.size);
-    const roomTopic = `locuschat/v2/rooms/${stateRef.current.currentZone.id}`;
+  const broadcastRoom = (event: RoomEvent) => {
+    roomClientRef.current?.publishRoom(event).catch(err => console.error("Room publish failed", err));
+  };
+
+  const pushSystemMessage = (text: string) => {
+    const notice: Message = { id: crypto.randomUUID(), sender: 'SYSTEM', senderId: 'SYSTEM', text, timestamp: Date.now(), type: 'text', isSystem: true };
+    setState(prev => ({ ...prev, messages: [...prev.messages, notice] }));
+  };
+
+  const handleRoomPayloadError = (err: unknown) => {
+    if (err instanceof RoomKeyError) {
+      if (keyMismatchNotifiedRef.current) return;
+      keyMismatchNotifiedRef.current = true;
+      pushSystemMessage("Undecryptable transmission received. Access key mismatch.");
+    } else if (err instanceof WireVersionError) {
+      console.warn("Dropped payload from incompatible client version", err.version);
+    } else {
+      console.error("Payload parsing error", err);
+    }
+  };
+
+  /**
+   * Challenge/response access check for private zones. The joiner publishes a fresh nonce on the
+   * zone's auth topic and the host answers with an HMAC over it under the zone proof key; the proof
+   * only verifies locally if both sides derived the same key from the password.
+   */
+  const proveZoneAccess = async (zoneId: string, keys: ZoneKeys): Promise<AccessVerdict> => {
+    const client = roomClientRef.current;
+    if (!client || !client.connected) return 'timeout';
+    const nonce = randomToken();
+    await client.watchAuth(zoneId);
+
+    return new Promise(resolve => {
+      const finish = (verdict: AccessVerdict) => {
+        clearTimeout(timer);
+        authWaitersRef.current.delete(nonce);
+        client.unwatchAuth(zoneId);
+        resolve(verdict);
+      };
+      const timer = setTimeout(() => finish('timeout'), JOIN_PROOF_TIMEOUT_MS);
+      authWaitersRef.current.set(nonce, async (proof) => {
+        finish(await verifyChallenge(keys.proof, nonce, proof) ? 'granted' : 'denied');
+      });
+      client.publishAuth(zoneId, { type: 'auth_challenge', sender: FINGERPRINT, nonce });
+    });
+  };
+
+  /**
+   * Resolves with the host's latest pulse for a zone, asking the host for one if the zone is not
+   * listed yet. Null if none arrives within ZONE_PULSE_WAIT_MS.
+   */
+  const awaitZonePulse = (zoneId: string): Promise<Zone | null> => {
+    const listed = stateRef.current.availableRooms.find(r => r.id === zoneId);
+    const client = roomClientRef.current;
+    if (listed) return Promise.resolve(listed);
+    if (!client || !client.connected) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const finish = (zone: Zone | null) => {
+        clearTimeout(timer);
+        pulseWaitersRef.current.delete(zoneId);
+        resolve(zone);
+      };
+      const timer = setTimeout(() => finish(null), ZONE_PULSE_WAIT_MS);
+      pulseWaitersRef.current.set(zoneId, finish);
+      client.requestDiscovery();
+    });
+  };
+
+  const handleAuthEvent = async (zoneId: string, event: AuthEvent) => {
+    if (event.type === 'auth_challenge') {
+      const zone = stateRef.current.currentZone;
+      if (!zone || zone.id !== zoneId || !stateRef.current.isHost || !zoneKeysRef.current || event.sender === FINGERPRINT) return;
+      if (stateRef.current.moderation.banned.includes(event.sender)) return;
+      if (zone.memberCap !== null && Object.keys(stateRef.current.roster).length >= zone.memberCap) return;
+      const proof = await signChallenge(zoneKeysRef.current.proof, event.nonce);
+      roomClientRef.current?.publishAuth(zoneId, { type: 'auth_response', target: event.sender, nonce: event.nonce, proof });
+    } else if (event.target === FINGERPRINT) {
+      authWaitersRef.current.get(event.nonce)?.(event.proof);
+    }
+  };
+
+  /**
+   * Signs a host-only control event for the current zone with the host key.
+   */
+  const signHostControl = async <T extends { type: string }>(fields: T): Promise<T & SignedControl> => {
+    const zone = stateRef.current.currentZone;
+    if (!zone || !hostSigningKeyRef.current) throw new Error("Only the zone host can issue control events.");
+    return signControl(hostSigningKeyRef.current, { ...fields, zoneId: zone.id, issuedAt: Date.now() });
+  };
+
+  /**
+   * Host-only control events are honored only if they are fresh, target this zone and carry
+   * a valid signature from the public key pinned in the Zone. Sanctions replayed through
+   * history sync are old by design, so they skip the freshness check (`allowStale`).
+   */
+  const verifyHostControl = async (event: SignedControl, allowStale = false): Promise<boolean> => {
+    const zone = stateRef.current.currentZone;
+    if (!zone?.hostKey || event.zoneId !== zone.id) return false;
+    if (!allowStale && Math.abs(Date.now() - event.issuedAt) > CONTROL_EVENT_MAX_AGE_MS) return false;
+    if (hostVerifyKeyRef.current?.publicKey !== zone.hostKey) {
+      hostVerifyKeyRef.current = { publicKey: zone.hostKey, key: await importHostPublicKey(zone.hostKey) };
+    }
+    return verifyControl(hostVerifyKeyRef.current.key, event);
+  };
+
+  /**
+   * Member events are honored only if they are fresh, target this zone and carry a valid signature
+   * from the key behind `senderId`. Presence and leave must also be newer than the last one accepted
+   * from that member; read receipts are idempotent, so they skip that ordering (`ordered`) and
+   * cannot hold back a presence signed just before them.
+   */
+  const verifyMemberEvent = async (event: MemberSigned, senderId: string, ordered = true): Promise<boolean> => {
+    const isCurrent = () =>
+      stateRef.current.currentZone?.id === event.zoneId && (!ordered || event.issuedAt > (memberClockRef.current.get(senderId) ?? 0));
+    if (!isCurrent() || Math.abs(Date.now() - event.issuedAt) > CONTROL_EVENT_MAX_AGE_MS) return false;
+    if (!(await verifyMemberSignature(event, senderId)) || !isCurrent()) return false;
+    if (ordered) memberClockRef.current.set(senderId, event.issuedAt);
+    return true;
+  };
+
+  const signMemberEvent = <T extends object>(zoneId: string, fields: T) =>
+    signAsMember(identity, { ...fields, zoneId, issuedAt: Date.now() });
+
+  /**
+   * Keeps the reaction records that belong to `messageId` in this zone and are signed by the
+   * member they name. Relayed history carries other members' reactions, so each one is checked.
+   */
+  const verifyReactions = async (messageId: string, reactions: ReactionRecord[] = []): Promise<ReactionRecord[]> => {
+    const zoneId = stateRef.current.currentZone?.id;
+    const valid = await Promise.all(reactions.map(r =>
+      r.messageId === messageId && r.zoneId === zoneId && REACTION_EMOJIS.includes(r.emoji) && verifyMemberSignature(r, r.senderId)));
+    return reactions.filter((_, i) => valid[i]);
+  };
+
+  const isSilenced = (senderId: string): boolean => {
+    const { banned, mutedUntil } = stateRef.current.moderation;
+    return banned.includes(senderId) || (mutedUntil[senderId] ?? 0) > Date.now() || (localMutesRef.current[senderId] ?? 0) > Date.now();
+  };
+
+  /**
+   * Receiver-side flood check against the sender's token bucket. Typing and reactions beyond it
+   * are simply dropped. Dropped messages also count as strikes: a notice is posted, and enough
+   * strikes within the window mute the sender locally. Only signed messages reach this with
+   * `kind === 'message'`, so nobody can get another member muted by spoofing their fingerprint.
+   */
+  const allowFromSender = (senderId: string, kind: FloodKind, cost = 1): boolean => {
+    if (senderId === FINGERPRINT) return true;
+    let record = floodRef.current.get(senderId);
+    if (!record) floodRef.current.set(senderId, record = { buckets: {}, drops: [], noticedAt: 0 });
+    const bucket = record.buckets[kind] ??= createBucket(RATE_LIMITS[kind]);
+    if (takeTokens(bucket, RATE_LIMITS[kind], cost)) return true;
+    if (kind !== 'message') return false;
+
+    const now = Date.now();
+    const handle = memberHandles[senderId] || 'A MEMBER';
+    record.drops = [...record.drops.filter(t => now - t < FLOOD_STRIKE_WINDOW_MS), now];
+    if (record.drops.length >= FLOOD_STRIKE_LIMIT) {
+      record.drops = [];
+      localMutesRef.current[senderId] = now + FLOOD_MUTE_MS;
+      pushSystemMessage(`${handle} WAS AUTO-MUTED FOR ${FLOOD_MUTE_MS / 60000} MIN FOR FLOODING`);
+    } else if (now - record.noticedAt >= FLOOD_NOTICE_INTERVAL_MS) {
+      record.noticedAt = now;
+      pushSystemMessage(`${handle} IS SENDING TOO FAST. SOME MESSAGES WERE HIDDEN`);
+    }
+    return false;
+  };
+
+  /**
+   * Applies a verified host sanction. `announce` is false for sanctions replayed from history,
+   * which latecomers enforce silently.
+   */
+  const applyModeration = (event: ModerationEvent, announce: boolean) => {
+    if (moderationLogRef.current.some(e => e.sig === event.sig)) return;
+    if (event.action !== 'kick') moderationLogRef.current = [...moderationLogRef.current, event];
+
+    setState(prev => {
+      const { banned, mutedUntil } = prev.moderation;
+      if (event.action === 'ban') {
+        const { [event.target]: _removed, ...roster } = prev.roster;
+        return {
+          ...prev,
+          moderation: { ...prev.moderation, banned: banned.includes(event.target) ? banned : [...banned, event.target] },
+          messages: prev.messages.filter(m => m.senderId !== event.target),
+          roster,
+        };
+      }
+      if (event.action === 'mute' && event.until) {
+        return { ...prev, moderation: { ...prev.moderation, mutedUntil: { ...mutedUntil, [event.target]: event.until } } };
+      }
+      const { [event.target]: _kicked, ...roster } = prev.roster;
+      return { ...prev, roster };
+    });
+
+    if (event.target === FINGERPRINT) {
+      if (event.action === 'mute') {
+        if (announce) pushSystemMessage(`YOU WERE MUTED BY THE HOST UNTIL ${new Date(event.until!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+        return;
+      }
+      if (event.action === 'ban') bannedZonesRef.current.add(event.zoneId);
+      handleExit(null).then(() => alert(event.action === 'ban' ? "You have been banned from this Zone." : "You were removed from this Zone by its host."));
+      return;
+    }
+    if (announce) {
+      const verb = { kick: 'REMOVED', mute: 'MUTED', ban: 'BANNED' }[event.action];
+      pushSystemMessage(`${memberHandles[event.target] || 'A MEMBER'} WAS ${verb} BY THE HOST`);
+    }
+  };
+
+  const moderate = async (action: ModerationAction, target: string, muteMinutes?: number) => {
+    try {
+      const until = action === 'mute' ? Date.now() + (muteMinutes || 5) * 60000 : undefined;
+      await roomClientRef.current?.publishRoom(await signHostControl({ type: 'moderation' as const, action, target, until }));
+    } catch (e) {
+      console.error("Moderation broadcast failed", e);
+      alert("Could not reach the zone. Try again.");
+    }
+  };
+
+  const broadcastPresence = (user: User | null = stateRef.current.currentUser, zoneId = stateRef.current.currentZone?.id) => {
+    if (!user || !zoneId || !takeTokens(sendBucketsRef.current.presence, RATE_LIMITS.presence)) return;
+    lastPresenceAtRef.current = Date.now();
+    signMemberEvent(zoneId, { type: 'presence' as const, sender: FINGERPRINT, username: user.username, color: user.color })
+      .then(broadcastRoom)
+      .catch(err => console.error("Presence signing failed", err));
+  };
+
+  const broadcastHostZone = async () => {
+    const client = roomClientRef.current;
+    if (!stateRef.current.isHost || !stateRef.current.currentZone || !client) return;
+    const currentCount = Math.max(1, Object.keys(stateRef.current.roster).length);
     const zoneData = { ...stateRef.current.currentZone, userCount: currentCount };
     
-    mqttClientRef.current.publish(DISCOVERY_TOPIC, JSON.stringify(zoneData));
-    mqttClientRef.current.publish(roomTopic, JSON.stringify({ type: 'count_sync', count: currentCount }));
+    client.publishDiscovery(zoneData);
+    broadcastRoom(await signHostControl({ type: 'count_sync' as const, count: currentCount }));
+    if (handoverRef.current && zoneData.hostKey) {
+      broadcastRoom(await signHostControl({
+        type: 'host_handover' as const, previousHostId: handoverRef.current.previousHostId, hostId: FINGERPRINT, hostKey: zoneData.hostKey
+      }));
+    }
     
     setState(prev => prev.currentZone ? ({ ...prev, currentZone: { ...prev.currentZone, userCount: currentCount } }) : prev);
   };
 
-  useEffect(() => {
-    const client = mqtt.connect('wss://broker.emqx.io:8084/mqtt', {
-      clientId: 'loc_' + FINGERPRINT,
-      clean: true,
-      connectTimeout: 30000,
-      reconnectPeriod: 3000,
-      keepalive: 60,
-      reschedulePings: true,
-      protocolVersion: 4,
-      path: '/mqtt'
-    });
+  /**
+   * Deterministic host election: once the host has dropped out of the roster, the present member
+   * with the lowest fingerprint takes over. Every client applies the same rule to its own roster.
+   */
+  const electedHostId = (roster: Record<string, RosterEntry>): string | undefined => Object.keys(roster).sort()[0];
 
-    client.on('connect', () => {
-      setConnectionStatus('connected');
-      client.subscribe(DISCOVERY_TOPIC);
-      client.publish(DISCOVERY_REQ_TOPIC, JSON.stringify({ type: 'sync_req', sender: FINGERPRINT }));
+  const checkHostSuccession = (roster: Record<string, RosterEntry>) => {
+    const { currentZone: zone, isHost } = stateRef.current;
+    if (!zone?.hostKey || isHost || roster[zone.hostId]) return;
+    // A newcomer's roster is incomplete until every member has answered its first presence.
+    if (Date.now() < rosterSettledAtRef.current) return;
+    if (electedHostId(roster) === FINGERPRINT) takeOverHost(zone);
+  };
 
-      if (stateRef.current.isHost) {
-        client.subscribe(DISCOVERY_REQ_TOPIC);
-      }
+  const takeOverHost = async (zone: Zone) => {
+    if (takingOverRef.current) return;
+    takingOverRef.current = true;
+    const keys = await generateHostKeyPair();
+    if (stateRef.current.currentZone?.id !== zone.id) {
+      takingOverRef.current = false;
+      return;
+    }
+    hostSigningKeyRef.current = keys.privateKey;
+    handoverRef.current = { previousHostId: zone.hostId };
+    // Sanctions signed by the previous host would no longer verify for latecomers; vouch for them with the new key.
+    moderationLogRef.current = await Promise.all(
+      moderationLogRef.current.map(({ sig, ...fields }) => signControl(keys.privateKey, fields))
+    );
+    setState(prev => prev.currentZone?.id === zone.id
+      ? { ...prev, isHost: true, currentZone: { ...prev.currentZone, hostId: FINGERPRINT, hostKey: keys.publicKey } }
+      : prev);
+    const client = roomClientRef.current;
+    client?.setHosting(true);
+    if (zone.type === 'private' && zoneKeysRef.current) client?.watchAuth(zone.id);
+    broadcastRoom(await signControl(keys.privateKey, {
+      type: 'host_handover' as const, previousHostId: zone.hostId, hostId: FINGERPRINT, hostKey: keys.publicKey,
+      zoneId: zone.id, issuedAt: Date.now(),
+    }));
+    pushSystemMessage("HOST LEFT. YOU ARE NOW HOSTING THIS ZONE");
+  };
 
-      if (stateRef.current.currentZone) {
-        const roomTopic = `locuschat/v2/rooms/${stateRef.current.currentZone.id}`;
-        client.subscribe(roomTopic);
-        client.publish(roomTopic, JSON.stringify({ type: 'history_req', sender: FINGERPRINT }));
-        client.publish(roomTopic, JSON.stringify({ type: 'presence', sender: FINGERPRINT }));
-      }
-    });
+  /**
+   * A handover is accepted only if the previous host is gone from our own roster and the
+   * claimant is the member our roster elects, and it proves possession of the announced key.
+   */
+  const acceptHostHandover = async (event: HostHandoverEvent) => {
+    const { currentZone: zone, roster } = stateRef.current;
+    if (!zone || event.zoneId !== zone.id || event.hostId === FINGERPRINT || zone.hostKey === event.hostKey) return;
+    if (Math.abs(Date.now() - event.issuedAt) > CONTROL_EVENT_MAX_AGE_MS) return;
+    if (event.previousHostId !== zone.hostId || roster[zone.hostId]) return;
+    const { [zone.hostId]: _previous, ...remaining } = roster;
+    if (!remaining[event.hostId] || electedHostId(remaining) !== event.hostId) {
+      return console.warn("Rejected host handover to a member this roster did not elect");
+    }
+    const key = await importHostPublicKey(event.hostKey);
+    if (!(await verifyControl(key, event))) return console.warn("Rejected host handover with a bad signature");
+    hostVerifyKeyRef.current = { publicKey: event.hostKey, key };
+    setState(prev => prev.currentZone?.id === event.zoneId
+      ? { ...prev, currentZone: { ...prev.currentZone, hostId: event.hostId, hostKey: event.hostKey } }
+      : prev);
+    pushSystemMessage(`HOST LEFT. ${roster[event.hostId].username} IS NOW HOSTING THIS ZONE`);
+  };
 
-    client.on('reconnect', () => setConnectionStatus('reconnecting'));
-    client.on('offline', () => setConnectionStatus('offline'));
-    client.on('error', (err: any) => {
-      console.error("MQTT Error:", err);
-      if (err.message && (err.message.includes('timeout') || err.message.includes('connack'))) setConnectionStatus('offline');
-    });
+  /**
+   * Latest expiry the host may still grant: one more extension, capped at the zone's maximum lifetime.
+   */
+  const maxExtendedExpiry = (zone: Zone): number =>
+    Math.min(zone.expiresAt + SESSION_EXTENSION_MS, zone.createdAt + MAX_SESSION_LIFETIME_MS);
 
-    client.on('message', (topic, payload) => {
-      try {
-        const data = JSON.parse(payload.toString());
-        if (topic === DISCOVERY_TOPIC) {
-          handleDiscoveryPulse(data);
-        } else if (topic === DISCOVERY_REQ_TOPIC) {
-          if (stateRef.current.isHost && data.sender !== FINGERPRINT) {
-            broadcastHostZone();
-          }
-        } else if (stateRef.current.currentZone && topic === `locuschat/v2/rooms/${stateRef.current.currentZone.id}`) {
-          handleRoomEvent(data);
-        }
-      } catch (e) {
-        console.error("Payload parsing error", e);
-      }
+  const applySessionExtension = (zoneId: string, expiresAt: number) => {
+    setState(prev => prev.currentZone?.id === zoneId && expiresAt > prev.currentZone.expiresAt
+      ? { ...prev, timeLeft: expiresAt - Date.now(), currentZone: { ...prev.currentZone, expiresAt } }
+      : prev);
+    pushSystemMessage(`SESSION EXTENDED UNTIL ${new Date(expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+  };
+
+  const handleExtendSession = async () => {
+    const zone = stateRef.current.currentZone;
+    if (!zone || !stateRef.current.isHost) return;
+    const expiresAt = maxExtendedExpiry(zone);
+    if (expiresAt <= zone.expiresAt) return alert("This zone has reached its maximum lifetime.");
+    try {
+      await roomClientRef.current?.publishRoom(await signHostControl({ type: 'session_extend' as const, expiresAt }));
+    } catch (e) {
+      console.error("Session extension broadcast failed", e);
+      return alert("Could not reach the zone. Try again.");
+    }
+    // Discovery beacons carry the new expiry from the next pulse on.
+    applySessionExtension(zone.id, expiresAt);
+  };
+
+  const acceptSessionExtension = async (event: SessionExtendEvent) => {
+    if (!(await verifyHostControl(event))) return console.warn("Rejected unsigned or forged session_extend");
+    const zone = stateRef.current.currentZone;
+    // The host can only push expiry later, and never past the maximum lifetime.
+    if (!zone || event.expiresAt <= zone.expiresAt || event.expiresAt > zone.createdAt + MAX_SESSION_LIFETIME_MS) return;
+    applySessionExtension(zone.id, event.expiresAt);
+  };
+
+  /**
+   * Drops everything tied to the current zone's transport and host role. Keys, the user and
+   * the visible state are left to the caller, since a restart carries some of them over.
+   */
+  const releaseZoneSession = () => {
+    moderationLogRef.current = [];
+    mediaManagerRef.current?.clear();
+    setMediaTransfers({});
+    setShowModeration(false);
+    setShowRoster(false);
+    roomClientRef.current?.leaveRoom();
+    hostSigningKeyRef.current = null;
+    hostVerifyKeyRef.current = null;
+    handoverRef.current = null;
+    takingOverRef.current = false;
+    outboxRef.current = [];
+    receiptsSentRef.current.clear();
+    historyRepliesRef.current.forEach(timer => clearTimeout(timer));
+    historyRepliesRef.current.clear();
+    historyRequestRef.current = null;
+    floodRef.current.clear();
+    memberClockRef.current.clear();
+    localMutesRef.current = {};
+    localRules.reset();
+    setDelivery({});
+    setFlagged({});
+  };
+
+  /**
+   * Moves the local user into a restarted zone, keeping their handle and color.
+   */
+  const migrateToZone = async (successor: Zone, signingKey: CryptoKey | null) => {
+    const user = stateRef.current.currentUser;
+    if (!user) return;
+    const keys = successor.type === 'private' ? await deriveZoneKeys(roomPassword, successor.id) : null;
+    releaseZoneSession();
+    hostSigningKeyRef.current = signingKey;
+    zoneKeysRef.current = keys;
+    enterZone(successor, user.username, !!signingKey, user.color);
+    pushSystemMessage("ZONE RESTARTED. PREVIOUS BUFFER PURGED");
+  };
+
+  /**
+   * Host-only: opens a fresh zone at the same location and tells present members where it is.
+   * The pointer is signed with the current host key, so members only follow the real host.
+   */
+  const handleRestartZone = async () => {
+    const zone = stateRef.current.currentZone;
+    if (!zone || !stateRef.current.isHost) return;
+    setLoading({ active: true, message: "RESTARTING ZONE", subMessage: "Migrating members to a fresh tunnel..." });
+    try {
+      const now = Date.now();
+      const hostKeys = await generateHostKeyPair();
+      const successor: Zone = {
+        id: crypto.randomUUID(), name: zone.name, type: zone.type, hostId: FINGERPRINT,
+        geocell: zone.geocell, createdAt: now, expiresAt: now + Math.min(zone.expiresAt - zone.createdAt, MAX_SESSION_LIFETIME_MS),
+        userCount: Math.max(1, Object.keys(stateRef.current.roster).length), hostKey: hostKeys.publicKey,
+        radiusKm: zone.radiusKm, memberCap: zone.memberCap, mediaPolicy: zone.mediaPolicy,
+      };
+      await roomClientRef.current?.publishRoom(await signHostControl({ type: 'zone_restart' as const, successor }));
+      await migrateToZone(successor, hostKeys.privateKey);
+    } catch (e) {
+      console.error("Zone restart failed", e);
+      alert("Zone restart failed. The current zone is still active.");
+    } finally {
+      setLoading({ active: false, message: "" });
+    }
+  };
+
+  const followZoneRestart = async (event: ZoneRestartEvent) => {
+    if (stateRef.current.isHost) return;
+    if (!(await verifyHostControl(event))) return console.warn("Rejected unsigned or forged zone_restart");
+    const zone = stateRef.current.currentZone;
+    const { successor } = event;
+    // A restart keeps the host, location and access type; anything else is not a restart.
+    if (!zone || successor.hostId !== zone.hostId || successor.geocell !== zone.geocell || successor.type !== zone.type) {
+      return console.warn("Rejected zone_restart that changes host, location or type");
+    }
+    await migrateToZone(successor, null);
+  };
+
+  useEffect(() => {
+    const manager = new MediaTransferManager({
+      publishChunk: (transferId, index, bytes) => {
+        const client = roomClientRef.current;
+        return client ? client.publishMediaChunk(transferId, index, bytes) : Promise.reject(new Error("No active room transport."));
+      },
+      requestChunks: (transferId, missing) => {
+        if (takeTokens(sendBucketsRef.current.media_req, RATE_LIMITS.media_req)) broadcastRoom({ type: 'media_req', transferId, missing, sender: FINGERPRINT });
+      },
+      onUpdate: (transferId, transfer) => setMediaTransfers(prev => ({ ...prev, [transferId]: transfer })),
     });
+    mediaManagerRef.current = manager;
+    return () => manager.clear();
+  }, []);
 
-    mqttClientRef.current = client;
-    return () => client && client.end(true);
-  }, [state.currentZone?.id, state.isHost]);
+  useEffect(() => {
+    const client = new RoomClient(FINGERPRINT, brokerConfig);
+    const unsubscribers = [
+      client.on('status', setConnectionStatus),
+      client.on('health', setBrokerHealth),
+      client.on('ready', () => {
+        if (!stateRef.current.currentZone) return;
+        handlersRef.current?.requestHistory();
+        handlersRef.current?.broadcastPresence();
+        handlersRef.current?.flushOutbox();
+      }),
+      client.on('room', event => handlersRef.current?.handleRoomEvent(event)),
+      client.on('roomError', err => handlersRef.current?.handleRoomPayloadError(err)),
+      client.on('mediaChunk', (transferId, index, bytes) => mediaManagerRef.current?.receive(transferId, index, bytes)),
+      client.on('discovery', zone => handlersRef.current?.handleDiscoveryPulse(zone)),
+      client.on('discoveryRequest', () => handlersRef.current?.broadcastHostZone()),
+      client.on('auth', (zoneId, event) => handlersRef.current?.handleAuthEvent(zoneId, event)),
+    ];
+    roomClientRef.current = client;
+    client.connect();
+
+    return () => {
+      unsubscribers.forEach(off => off());
+      client.disconnect();
+      roomClientRef.current = null;
+      setConnectionStatus('offline');
+      setBrokerHealth(null);
+      setState(prev => ({ ...prev, availableRooms: [] }));
+    };
+  }, [brokerConfig]);
 
   const handleDiscoveryPulse = (room: Zone) => {
     const now = Date.now();
     if (room.expiresAt <= now) return;
+    pulseWaitersRef.current.get(room.id)?.(room);
+    const userLocation = userLocationRef.current;
 
     setState(prev => {
       const isCurrentZone = prev.currentZone?.id === room.id;
+      const known = prev.availableRooms.find(r => r.id === room.id);
+      // Pin the first host key seen for a zone so a spoofed pulse cannot swap it out. Outside the zone,
+      // a new key is only taken once the pinned host has gone silent (it may have handed over).
+      const hostSilent = now - (beaconSeenAtRef.current.get(room.id) ?? 0) > HOST_SILENCE_MS;
+      if (known?.hostKey && known.hostKey !== room.hostKey && !hostSilent) return prev;
+      if (isCurrentZone && prev.currentZone?.hostKey && prev.currentZone.hostKey !== room.hostKey) return prev;
+      beaconSeenAtRef.current.set(room.id, now);
       const others = prev.availableRooms.filter(r => r.id !== room.id);
       
       let inRange = true;
       if (userLocation) {
-        const dist = calculateDistance(userLocation.lat, userLocation.lng, room.center.lat, room.center.lng);
-        inRange = dist <= RADIUS_KM;
+        inRange = isWithinGeocellReach(userLocation.lat, userLocation.lng, room.geocell, room.radiusKm);
       }
 
-      const updatedRooms = inRange ? [...others, room] : others;
-      const updatedCurrentZone = isCurrentZone ? { ...prev.currentZone, userCount: room.userCount } : prev.currentZone;
+      // Known zones are updated in place so the discovery list keeps its order between pulses.
+      const updatedRooms = !inRange ? others : known ? prev.availableRooms.map(r => r.id === room.id ? room : r) : [...others, room];
+      // Member counts for the current zone only come from signed count_sync events.
+      const updatedCurrentZone = isCurrentZone
+        ? {
+            ...prev.currentZone,
+            geocell: prev.currentZone?.geocell || room.geocell,
+            hostKey: prev.currentZone?.hostKey || room.hostKey,
+          }
+        : prev.currentZone;
 
       return { 
         ...prev, 
@@ -256,108 +854,305 @@ const App: React.FC = () => {
     });
   };
 
-  const handleRoomEvent = (data: any) => {
+  /**
+   * Asks the zone for the history we are missing. Pages keep coming until the window is full;
+   * `fetched` lists ids from the page just received, which state does not hold yet.
+   */
+  const requestHistory = (fetched: string[] = [], pages = 0) => {
+    if (!takeTokens(sendBucketsRef.current.history_req, RATE_LIMITS.history_req)) return;
+    const requestId = randomToken(6);
+    historyRequestRef.current = { requestId, pages: pages + 1 };
+    const held = stateRef.current.messages.filter(m => !m.isSystem).map(m => m.id);
+    const known = Array.from(new Set([...held, ...fetched])).slice(-HISTORY_WINDOW_SIZE);
+    broadcastRoom({ type: 'history_req', sender: FINGERPRINT, requestId, known });
+  };
+
+  const answerHistory = (request: HistoryRequestEvent) => {
+    const { page, more } = selectHistoryPage(stateRef.current.messages, request.known);
+    const now = Date.now();
+    const sanctions = moderationLogRef.current.filter(e => e.action === 'ban' || (e.until ?? 0) > now);
+    if (page.length === 0 && sanctions.length === 0) return;
+    if (!takeTokens(historyAnswersRef.current, HISTORY_ANSWER_LIMIT)) return console.warn("History answer budget exhausted");
+    broadcastRoom({ type: 'history_res', target: request.sender, requestId: request.requestId, payload: page, moderation: sanctions, more });
+  };
+
+  /**
+   * Runs other members' messages through the local moderation rules and records the flagged ones.
+   */
+  const flagIncoming = (messages: Message[]) => {
+    const flags: Record<string, string> = {};
+    messages.forEach(m => {
+      const verdict = screenIncoming(m);
+      if (!verdict.safe) flags[m.id] = verdict.reason || 'Flagged content';
+    });
+    if (Object.keys(flags).length > 0) setFlagged(prev => ({ ...prev, ...flags }));
+  };
+
+  /**
+   * Adds a live message once its signature checks out against the sender's session key.
+   */
+  const acceptMessage = async (msg: Message) => {
+    if (isSilenced(msg.senderId) || !isMediaAllowed(stateRef.current.currentZone!.mediaPolicy, msg.type)) return;
+    if (stateRef.current.messages.some(m => m.id === msg.id)) return;
+    if (msg.zoneId !== stateRef.current.currentZone?.id) return console.warn("Dropped message signed for another zone", msg.id);
+    if (!(await verifyMessage(msg))) return console.warn("Dropped message with a missing or forged signature", msg.id);
+    if (msg.reactions) msg = { ...msg, reactions: await verifyReactions(msg.id, msg.reactions) };
+    if (msg.media && !isWithinMediaLimit(msg.media)) return console.warn("Dropped message with an oversized attachment", msg.id);
+    if (!allowFromSender(msg.senderId, 'message', msg.media ? RATE_LIMIT_MEDIA_COST : 1)) return;
+    flagIncoming([msg]);
+    if (msg.media) mediaManagerRef.current?.expect(msg.media);
+    setState(prev => {
+      if (prev.messages.some(m => m.id === msg.id)) return prev;
+      const newTyping = { ...prev.typingUsers };
+      delete newTyping[msg.sender];
+      if (msg.senderId !== FINGERPRINT) {
+        soundService.playReceive();
+        setUnreadCount(c => c + 1);
+      }
+      return { ...prev, messages: [...prev.messages, msg], typingUsers: newTyping };
+    });
+  };
+
+  /**
+   * Merges a history page. Whoever relays history could alter it, so every message is verified
+   * and must have been signed for this zone.
+   */
+  const mergeHistory = async (received: Message[]) => {
+    const zoneId = stateRef.current.currentZone?.id;
+    const verified = await Promise.all(received.map(m => m.zoneId === zoneId && verifyMessage(m)));
+    const payload = await Promise.all(received.map(async m => m.reactions ? { ...m, reactions: await verifyReactions(m.id, m.reactions) } : m));
+    flagIncoming(payload.filter((m, i) => verified[i] && m.senderId !== FINGERPRINT && !stateRef.current.messages.some(held => held.id === m.id)));
+    setState(prev => {
+      const incomingMessages = payload.filter((m, i) => verified[i] &&
+        !prev.moderation.banned.includes(m.senderId) && (!prev.currentZone || isMediaAllowed(prev.currentZone.mediaPolicy, m.type)));
+      const incomingById = new Map(incomingMessages.map(m => [m.id, m]));
+      // Messages we already hold keep their content; only reactions are merged in.
+      const newMessages = prev.messages.map(m => {
+        const incoming = incomingById.get(m.id);
+        if (!incoming) return m;
+        incomingById.delete(m.id);
+        return incoming.reactions ? { ...m, reactions: mergeReactions(m.reactions, incoming.reactions) } : m;
+      });
+      newMessages.push(...incomingById.values());
+      return { ...prev, messages: newMessages.sort((a, b) => a.timestamp - b.timestamp) };
+    });
+  };
+
+  /**
+   * Adds or refreshes a verified member. Handles the local rules flag are replaced by a neutral
+   * one, and join notices share one budget so a burst of new identities cannot flood the chat.
+   */
+  const acceptPresence = (event: PresenceEvent) => {
+    const now = Date.now();
+    const color = COLORS.includes(event.color) ? event.color : COLORS[0];
+    const username = displayHandle(event.username, event.sender);
+    if (!stateRef.current.roster[event.sender]) {
+      if (now >= rosterSettledAtRef.current && takeTokens(joinNoticesRef.current, JOIN_NOTICE_LIMIT)) pushSystemMessage(`${username} JOINED`);
+      // Answer newcomers right away instead of making them wait for our next heartbeat.
+      if (now - lastPresenceAtRef.current > PRESENCE_REPLY_THROTTLE_MS) broadcastPresence();
+    }
+    setMemberHandles(prev => prev[event.sender] === username ? prev : { ...prev, [event.sender]: username });
+    setState(prev => ({
+      ...prev,
+      roster: {
+        ...prev.roster,
+        [event.sender]: { id: event.sender, username, color, joinedAt: prev.roster[event.sender]?.joinedAt ?? now, lastSeen: now },
+      },
+    }));
+  };
+
+  /**
+   * Only a verified leave reaches here, so a departure announced on someone else's behalf
+   * never triggers host succession; otherwise members only drop out by timing out.
+   */
+  const acceptLeave = (event: LeaveEvent) => {
+    const member = stateRef.current.roster[event.sender];
+    if (!member) return;
+    const { [event.sender]: _left, ...remaining } = stateRef.current.roster;
+    setState(prev => {
+      const { [event.sender]: _left, ...roster } = prev.roster;
+      return { ...prev, roster };
+    });
+    pushSystemMessage(event.reason === 'radius' ? `${member.username} LEFT THE ZONE RADIUS` : `${member.username} LEFT`);
+    checkHostSuccession(remaining);
+  };
+
+  const handleRoomEvent = (data: RoomEvent) => {
     if (!stateRef.current.currentZone) return;
-    const roomTopic = `locuschat/v2/rooms/${stateRef.current.currentZone.id}`;
     
     switch (data.type) {
       case 'message':
-        const msg = data.payload;
-        setState(prev => {
-          if (prev.messages.some(m => m.id === msg.id)) return prev;
-          const newTyping = { ...prev.typingUsers };
-          delete newTyping[msg.sender];
-          if (msg.sender !== prev.currentUser?.username) {
-            soundService.playReceive();
-            setUnreadCount(c => c + 1);
-          }
-          return { ...prev, messages: [...prev.messages, msg], typingUsers: newTyping };
-        });
+        acceptMessage(data.payload);
         break;
       case 'typing':
-        if (data.sender === stateRef.current.currentUser?.username) return;
+        if (data.senderId === FINGERPRINT || isSilenced(data.senderId) || !allowFromSender(data.senderId, 'typing')) return;
         setState(prev => ({ 
           ...prev, 
           typingUsers: { ...prev.typingUsers, [data.sender]: Date.now() } 
         }));
         break;
+      case 'reaction': {
+        const { reaction } = data;
+        if (isSilenced(reaction.senderId)) return;
+        verifyReactions(reaction.messageId, [reaction]).then(([valid]) => {
+          if (!valid) return console.warn("Rejected unsigned or forged reaction");
+          if (!allowFromSender(reaction.senderId, 'reaction')) return;
+          setState(prev => ({
+            ...prev,
+            messages: prev.messages.map(m => m.id === reaction.messageId ? { ...m, reactions: applyReaction(m.reactions, reaction) } : m),
+          }));
+        });
+        break;
+      }
+      case 'receipt':
+        if (data.senderId === FINGERPRINT || stateRef.current.moderation.banned.includes(data.senderId)) return;
+        verifyMemberEvent(data, data.senderId, false).then(valid => {
+          if (!valid) return console.warn("Rejected unsigned, stale or forged read receipt");
+          if (!allowFromSender(data.senderId, 'receipt')) return;
+          setDelivery(prev => {
+            const next = { ...prev };
+            data.messageIds.forEach(id => {
+              const entry = next[id];
+              if (entry && !entry.seenBy.includes(data.senderId)) next[id] = { ...entry, seenBy: [...entry.seenBy, data.senderId] };
+            });
+            return next;
+          });
+        });
+        break;
+      case 'media_req':
+        if (data.sender === FINGERPRINT || !mediaManagerRef.current?.isUploader(data.transferId)) return;
+        if (!allowFromSender(data.sender, 'media_req') || !takeTokens(mediaResendsRef.current, MEDIA_RESEND_LIMIT)) return;
+        mediaManagerRef.current.resend(data.transferId, data.missing).catch(err => console.error("Media resend failed", err));
+        break;
       case 'presence':
-        if (stateRef.current.isHost) activeMembersRef.current.add(data.sender);
+        if (data.sender === FINGERPRINT || stateRef.current.moderation.banned.includes(data.sender)) return;
+        verifyMemberEvent(data, data.sender).then(valid => {
+          if (!valid) return console.warn("Rejected unsigned, stale or forged presence");
+          if (allowFromSender(data.sender, 'presence')) acceptPresence(data);
+        });
+        break;
+      case 'leave':
+        if (data.sender === FINGERPRINT || !stateRef.current.roster[data.sender]) return;
+        verifyMemberEvent(data, data.sender).then(valid => {
+          if (valid) acceptLeave(data);
+          else console.warn("Rejected unsigned, stale or forged leave");
+        });
         break;
       case 'count_sync':
-        setState(prev => {
-          if (prev.currentZone && prev.currentZone.id === stateRef.current.currentZone?.id) {
-            return { ...prev, currentZone: { ...prev.currentZone, userCount: data.count } };
-          }
-          return prev;
+        verifyHostControl(data).then(valid => {
+          if (!valid) return console.warn("Rejected unsigned or forged count_sync");
+          setState(prev => {
+            if (prev.currentZone && prev.currentZone.id === data.zoneId) {
+              return { ...prev, currentZone: { ...prev.currentZone, userCount: data.count } };
+            }
+            return prev;
+          });
         });
         break;
-      case 'history_req':
-        if (stateRef.current.messages.length > 0) {
-          mqttClientRef.current.publish(roomTopic, JSON.stringify({ 
-            type: 'history_res', target: data.sender, payload: stateRef.current.messages
-          }));
+      case 'history_req': {
+        if (data.sender === FINGERPRINT || stateRef.current.moderation.banned.includes(data.sender)) return;
+        if (!allowFromSender(data.sender, 'history_req')) return;
+        const { isHost, currentZone, roster } = stateRef.current;
+        if (isHost) answerHistory(data);
+        else if (currentZone && !roster[currentZone.hostId] && !historyRepliesRef.current.has(data.requestId)) {
+          historyRepliesRef.current.set(data.requestId, setTimeout(() => {
+            historyRepliesRef.current.delete(data.requestId);
+            answerHistory(data);
+          }, Math.random() * HISTORY_BACKOFF_MS));
         }
         break;
+      }
       case 'history_res':
+        // Someone already answered this request; drop our own pending reply.
+        clearTimeout(historyRepliesRef.current.get(data.requestId));
+        historyRepliesRef.current.delete(data.requestId);
         if (data.target === FINGERPRINT) {
-          setState(prev => {
-            const incomingMessages = data.payload as Message[];
-            const existingIds = new Set(prev.messages.map(m => m.id));
-            const newMessages = [...prev.messages];
-            incomingMessages.forEach(msg => { if (!existingIds.has(msg.id)) newMessages.push(msg); });
-            return { ...prev, messages: newMessages.sort((a, b) => a.timestamp - b.timestamp) };
+          const request = historyRequestRef.current;
+          if (request?.requestId === data.requestId && data.more && request.pages < HISTORY_MAX_PAGES) {
+            requestHistory(data.payload.map(m => m.id), request.pages);
+          }
+          data.moderation.forEach(event => {
+            verifyHostControl(event, true).then(valid => { if (valid) applyModeration(event, false); });
           });
+          mergeHistory(data.payload);
         }
         break;
+      case 'moderation':
+        verifyHostControl(data).then(valid => {
+          if (!valid) return console.warn("Rejected unsigned or forged moderation event");
+          applyModeration(data, true);
+        });
+        break;
+      case 'host_handover':
+        acceptHostHandover(data);
+        break;
+      case 'session_extend':
+        acceptSessionExtension(data);
+        break;
+      case 'zone_restart':
+        followZoneRestart(data);
+        break;
       case 'room_delete':
-        alert("This Zone has been decommissioned.");
-        handleExit();
+        verifyHostControl(data).then(valid => {
+          if (!valid) return console.warn("Rejected unsigned or forged room_delete");
+          handleExit(null);
+          alert("This Zone has been decommissioned by its host.");
+        });
         break;
     }
   };
 
   useEffect(() => {
-    if (!state.currentZone || !mqttClientRef.current || !state.isHost) return;
+    if (!state.currentZone || !state.isHost) return;
+    broadcastHostZone();
     const pulse = setInterval(() => {
       broadcastHostZone();
-      activeMembersRef.current = new Set([FINGERPRINT]);
     }, DISCOVERY_PULSE_INTERVAL_MS);
     return () => clearInterval(pulse);
   }, [state.currentZone?.id, state.isHost]);
 
   useEffect(() => {
-    if (!state.currentZone || !mqttClientRef.current) return;
+    if (!state.currentZone) return;
     const hb = setInterval(() => {
-      const roomTopic = `locuschat/v2/rooms/${stateRef.current.currentZone?.id}`;
-      mqttClientRef.current.publish(roomTopic, JSON.stringify({ type: 'presence', sender: FINGERPRINT }));
+      broadcastPresence();
+      const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+      const stale = Object.values(stateRef.current.roster).filter(m => m.id !== FINGERPRINT && m.lastSeen < cutoff);
+      const remaining = { ...stateRef.current.roster };
+      stale.forEach(m => { delete remaining[m.id]; });
+      if (stale.length > 0) {
+        setState(prev => {
+          const roster = { ...prev.roster };
+          stale.forEach(m => { delete roster[m.id]; });
+          return { ...prev, roster };
+        });
+        stale.forEach(m => pushSystemMessage(`${m.username} TIMED OUT`));
+      }
+      checkHostSuccession(remaining);
     }, PRESENCE_HEARTBEAT_MS);
     return () => clearInterval(hb);
   }, [state.currentZone?.id]);
 
-  const hashPassword = async (pwd: string) => {
-    const msgUint8 = new TextEncoder().encode(pwd + "locus-salt");
-    const hashBuffer = await crypto.subtle.digest('SHA-256', msgUint8);
-    return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
-  };
-
-  const createRoom = async (name: string, type: RoomType, username: string, password?: string) => {
+  const createRoom = async (name: string, type: RoomType, username: string, password: string | undefined, settings: ZoneSettings) => {
     if (!username.trim()) return alert("Identity handle required.");
+    const handleCheck = screenHandle(username);
+    if (!handleCheck.safe) return alert(`That handle is not allowed: ${handleCheck.reason}`);
     setLoading({ active: true, message: "INITIALIZING SENSORS", subMessage: "Requesting geolocation lock..." });
     try {
       const pos = await getCurrentPosition();
       setLoading(l => ({ ...l, message: "GENERATING SECURE TUNNEL", subMessage: "Establishing ephemeral frequency..." }));
       
       const now = Date.now();
-      const id = Math.random().toString(36).substr(2, 9);
-      const pwdHash = (type === 'private' && password) ? await hashPassword(password) : undefined;
+      const id = crypto.randomUUID();
+      const hostKeys = await generateHostKeyPair();
       const zone: Zone = {
         id, name: name.toUpperCase(), type, hostId: FINGERPRINT,
-        center: { lat: pos.coords.latitude, lng: pos.coords.longitude },
-        createdAt: now, expiresAt: now + SESSION_DURATION_MS, userCount: 1, passwordHash: pwdHash
+        geocell: encodeGeohash(pos.coords.latitude, pos.coords.longitude, getGeocellPrecision(settings.radiusKm)),
+        createdAt: now, expiresAt: now + Math.min(settings.lifetimeMs, MAX_SESSION_LIFETIME_MS), userCount: 1,
+        hostKey: hostKeys.publicKey, radiusKm: settings.radiusKm, memberCap: settings.memberCap, mediaPolicy: settings.mediaPolicy
       };
+      hostSigningKeyRef.current = hostKeys.privateKey;
       if (password) setRoomPassword(password);
-      activeMembersRef.current = new Set([FINGERPRINT]);
+      zoneKeysRef.current = (type === 'private' && password) ? await deriveZoneKeys(password, id) : null;
       enterZone(zone, username, true);
     } catch (e) {
       alert("Location required to initialize a Zone.");
@@ -368,60 +1163,126 @@ const App: React.FC = () => {
 
   const joinRoom = async (zone: Zone, username: string, password?: string) => {
     if (!username.trim()) return alert("Please set your handle first.");
+    const handleCheck = screenHandle(username);
+    if (!handleCheck.safe) return alert(`That handle is not allowed: ${handleCheck.reason}`);
+    if (bannedZonesRef.current.has(zone.id)) return alert("You have been banned from this Zone.");
     setLoading({ active: true, message: "CONNECTING TO SIGNAL", subMessage: "Verifying proximity and credentials..." });
+
+    // Deep links carry default settings and possibly no geocell; proximity is only checked
+    // against the host's own pulse, so wait for one rather than join unchecked.
+    const target = zone.hostId === 'remote' ? await awaitZonePulse(zone.id) : zone;
+    if (!target?.geocell) {
+      setLoading({ active: false, message: "" });
+      return alert("Could not reach this zone's host to verify its location. Try again in a moment.");
+    }
+    if (target.memberCap !== null && target.userCount >= target.memberCap) {
+      setLoading({ active: false, message: "" });
+      return alert("This zone is full.");
+    }
+    try {
+      const pos = await getCurrentPosition();
+      if (!isWithinGeocellReach(pos.coords.latitude, pos.coords.longitude, target.geocell, target.radiusKm)) {
+        setLoading({ active: false, message: "" });
+        return alert("You are outside this zone's radius.");
+      }
+    } catch (e) {
+      setLoading({ active: false, message: "" });
+      return alert("Location required to verify proximity.");
+    }
     
-    if (zone.type === 'private' && zone.passwordHash) {
-      const inputHash = await hashPassword(password || '');
-      if (inputHash !== zone.passwordHash) {
+    let keys: ZoneKeys | null = null;
+    if (target.type === 'private') {
+      keys = await deriveZoneKeys(password || '', target.id);
+      const verdict = await proveZoneAccess(target.id, keys);
+      if (verdict !== 'granted') {
         setLoading({ active: false, message: "" });
-        return alert("Access Denied.");
+        return alert(verdict === 'denied' ? "Access Denied." : "Access check timed out. The zone host did not respond.");
       }
       setRoomPassword(password || '');
     }
+    zoneKeysRef.current = keys;
     
-    enterZone(zone, username, zone.hostId === FINGERPRINT);
+    enterZone(target, username, target.hostId === FINGERPRINT);
     setLoading({ active: false, message: "" });
   };
 
-  const enterZone = (zone: Zone, username: string, isHost: boolean) => {
-    const newUser: User = {
-      username: username.toUpperCase(),
-      color: COLORS[Math.floor(Math.random() * COLORS.length)]
-    };
+  const enterZone = (zone: Zone, username: string, isHost: boolean, color = COLORS[Math.floor(Math.random() * COLORS.length)]) => {
+    const newUser: User = { username: username.toUpperCase().slice(0, MAX_HANDLE_LENGTH), color };
+    const now = Date.now();
     setState(prev => ({
       ...prev, currentZone: zone, currentUser: newUser, isHost,
-      messages: [], timeLeft: zone.expiresAt - Date.now(),
+      messages: [], timeLeft: zone.expiresAt - now,
+      isInRange: true, rangeBreachSince: null, moderation: EMPTY_MODERATION,
+      roster: { [FINGERPRINT]: { id: FINGERPRINT, ...newUser, joinedAt: now, lastSeen: now } },
     }));
+    moderationLogRef.current = [];
+    handoverRef.current = null;
+    takingOverRef.current = false;
+    rosterSettledAtRef.current = now + PRESENCE_HEARTBEAT_MS;
+    setMemberHandles({ [FINGERPRINT]: newUser.username });
     setUnreadCount(0);
     setPendingZone(null);
-    if (mqttClientRef.current && mqttClientRef.current.connected) {
-       const roomTopic = `locuschat/v2/rooms/${zone.id}`;
-       mqttClientRef.current.publish(roomTopic, JSON.stringify({ type: 'presence', sender: FINGERPRINT }));
-       mqttClientRef.current.publish(roomTopic, JSON.stringify({ type: 'history_req', sender: FINGERPRINT }));
+    setExpiryDismissedFor(null);
+    keyMismatchNotifiedRef.current = false;
+    const client = roomClientRef.current;
+    if (!client) return;
+    client.enterRoom(zone.id, zoneKeysRef.current?.seal ?? null);
+    client.setHosting(isHost);
+    if (isHost && zone.type === 'private') client.watchAuth(zone.id);
+    if (client.connected) {
+       broadcastPresence(newUser, zone.id);
+       requestHistory();
     }
   };
 
-  const handleExit = async () => {
+  /**
+   * Leaves the current zone. `reason` is announced to the room; pass null when the room
+   * already knows why (zone closed or expired, removed by the host).
+   */
+  const handleExit = async (reason: LeaveReason | null = 'exit') => {
     setLoading({ active: true, message: "COLLAPSING TUNNEL", subMessage: "Scrubbing transient RAM buffers..." });
+    const zone = stateRef.current.currentZone;
+    if (reason && zone) {
+      try {
+        broadcastRoom(await signMemberEvent(zone.id, { type: 'leave' as const, sender: FINGERPRINT, reason }));
+      } catch (e) {
+        console.error("Leave signing failed", e);
+      }
+    }
     setState(prev => ({
       ...prev, currentZone: null, currentUser: null, messages: [], isHost: false,
       timeLeft: SESSION_DURATION_MS, typingUsers: {}, distance: null,
+      isInRange: true, rangeBreachSince: null, moderation: EMPTY_MODERATION, roster: {},
     }));
+    releaseZoneSession();
+    setMemberHandles({});
     setRoomPassword('');
+    zoneKeysRef.current = null;
     setUnreadCount(0);
-    activeMembersRef.current = new Set([FINGERPRINT]);
     setShowExitConfirm(false);
+    setShowCloseConfirm(false);
     const url = new URL(window.location.href);
     url.searchParams.delete('zoneId');
     url.searchParams.delete('n');
     url.searchParams.delete('t');
+    url.searchParams.delete('g');
     window.history.replaceState({}, '', url.toString());
     setLoading({ active: false, message: "" });
   };
 
+  const handleCloseZone = async () => {
+    setLoading({ active: true, message: "DECOMMISSIONING ZONE", subMessage: "Broadcasting signed shutdown..." });
+    try {
+      await roomClientRef.current?.publishRoom(await signHostControl({ type: 'room_delete' as const }));
+    } catch (e) {
+      console.error("Zone shutdown broadcast failed", e);
+    }
+    await handleExit(null);
+  };
+
   const handleShare = async () => {
     if (state.currentZone) {
-      const shareUrl = `${window.location.origin}${window.location.pathname}?zoneId=${state.currentZone.id}&n=${encodeURIComponent(state.currentZone.name)}&t=${state.currentZone.type}`;
+      const shareUrl = `${window.location.origin}${window.location.pathname}?zoneId=${state.currentZone.id}&n=${encodeURIComponent(state.currentZone.name)}&t=${state.currentZone.type}&g=${state.currentZone.geocell}`;
       if (navigator.share) {
         try {
           await navigator.share({ title: 'Locus Chat Invitation', text: `Join "${state.currentZone.name}"`, url: shareUrl });
@@ -434,22 +1295,149 @@ const App: React.FC = () => {
     }
   };
 
-  const sendMessage = async (text: string, type: MediaType = 'text', mediaData?: string): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      if (!state.currentUser || !state.currentZone || !mqttClientRef.current) return reject();
-      const msg: Message = { id: Math.random().toString(36).substr(2, 9), sender: state.currentUser.username, text, timestamp: Date.now(), type, mediaData };
-      mqttClientRef.current.publish(`locuschat/v2/rooms/${state.currentZone.id}`, JSON.stringify({ type: 'message', payload: msg }), (err: any) => {
-        if (err) reject(err); else { soundService.playSend(); resolve(); }
-      });
+  /**
+   * Publishes queued messages in order at QoS 1, each only after the previous one was acknowledged.
+   * Stops at the first failure and waits for the next reconnect; receivers drop repeats by id.
+   */
+  const flushOutbox = async () => {
+    const client = roomClientRef.current;
+    if (flushingRef.current || !client?.connected || !stateRef.current.currentZone) return;
+    flushingRef.current = true;
+    try {
+      while (outboxRef.current.length > 0) {
+        const msg = outboxRef.current[0];
+        // Pace the queue to the rate every receiver enforces, so a burst after reconnecting is not dropped.
+        const cost = msg.media ? RATE_LIMIT_MEDIA_COST : 1;
+        const wait = msUntilTokens(sendBucketsRef.current.message, RATE_LIMITS.message, cost);
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+          if (outboxRef.current[0] !== msg) return;
+        }
+        takeTokens(sendBucketsRef.current.message, RATE_LIMITS.message, cost);
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+          await Promise.race([
+            client.publishRoom({ type: 'message', payload: msg }, 1),
+            new Promise((_, reject) => { timer = setTimeout(() => reject(new Error("Broker did not acknowledge the message.")), OUTBOX_ACK_TIMEOUT_MS); }),
+          ]);
+        } catch (err) {
+          console.warn("Outbox publish failed; retrying after reconnect", err);
+          return;
+        } finally {
+          clearTimeout(timer);
+        }
+        if (outboxRef.current[0] !== msg) return;
+        outboxRef.current.shift();
+        setDelivery(prev => ({ ...prev, [msg.id]: { seenBy: [], ...prev[msg.id], status: 'sent' } }));
+        // The message announces the transfer; chunks follow on its subtopic while the bubble shows progress.
+        if (msg.media) uploadMedia(msg.media);
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  const uploadMedia = (media: MediaDescriptor) => {
+    mediaManagerRef.current?.send(media.transferId).catch(err => {
+      console.error("Media upload failed", err);
+      setMediaTransfers(prev => ({
+        ...prev, [media.transferId]: { done: 0, total: media.checksums.length, ...prev[media.transferId], status: 'failed' },
+      }));
     });
   };
 
+  handlersRef.current = { handleRoomEvent, handleRoomPayloadError, handleDiscoveryPulse, handleAuthEvent, broadcastHostZone, broadcastPresence, flushOutbox, requestHistory };
+
+  /**
+   * Shows the message right away and queues it; it goes out now if the broker is reachable,
+   * otherwise after the next reconnect.
+   */
+  const sendMessage = async (text: string, type: MediaType = 'text', mediaBlob?: Blob, replyTo?: MessageReference, transcript?: string): Promise<void> => {
+    const manager = mediaManagerRef.current;
+    if (!state.currentUser || !state.currentZone || !manager) throw new Error("Not connected to a zone.");
+    if (isSilenced(FINGERPRINT)) throw new Error("You are muted by the host.");
+    if (!isMediaAllowed(state.currentZone.mediaPolicy, type)) throw new Error("This zone does not accept that kind of media.");
+    if (mediaBlob && !isWithinMediaLimit(mediaBlob)) throw new Error(`Attachment exceeds the ${getMaxMediaSizeMb()} MB limit.`);
+    const media = mediaBlob ? await manager.prepare(mediaBlob) : undefined;
+    const msg = await signMessage(identity, {
+      id: crypto.randomUUID(), sender: state.currentUser.username, senderId: FINGERPRINT, zoneId: state.currentZone.id, text, timestamp: Date.now(), type, media, replyTo, transcript: transcript || undefined,
+    } as Message);
+    outboxRef.current.push(msg);
+    if (media) setMediaTransfers(prev => ({ ...prev, [media.transferId]: { status: 'sending', done: 0, total: media.checksums.length } }));
+    setDelivery(prev => ({ ...prev, [msg.id]: { status: 'sending', seenBy: [] } }));
+    setState(prev => ({ ...prev, messages: [...prev.messages, msg] }));
+    soundService.playSend();
+    flushOutbox();
+  };
+
+  /**
+   * Clears the unread badge and tells senders which of their messages we have now seen.
+   */
+  const markRead = () => {
+    setUnreadCount(0);
+    if (document.visibilityState !== 'visible') return;
+    const unseen = state.messages
+      .filter(m => !m.isSystem && m.senderId !== FINGERPRINT && !receiptsSentRef.current.has(m.id))
+      .map(m => m.id);
+    if (unseen.length === 0 || !state.currentZone || !roomClientRef.current?.connected) return;
+    if (!takeTokens(sendBucketsRef.current.receipt, RATE_LIMITS.receipt)) return;
+    unseen.forEach(id => receiptsSentRef.current.add(id));
+    signMemberEvent(state.currentZone.id, { senderId: FINGERPRINT, messageIds: unseen.slice(-MAX_RECEIPT_IDS) })
+      .then(receipt => broadcastRoom({ type: 'receipt', ...receipt }))
+      .catch(err => console.error("Receipt signing failed", err));
+  };
+
+  const retryMedia = (descriptor: MediaDescriptor) => {
+    const manager = mediaManagerRef.current;
+    if (!manager) return;
+    if (manager.isUploader(descriptor.transferId)) {
+      uploadMedia(descriptor);
+    } else {
+      manager.expect(descriptor);
+    }
+  };
+
+  const sendReaction = (messageId: string, emoji: string) => {
+    if (!state.currentZone || isSilenced(FINGERPRINT)) return;
+    const target = state.messages.find(m => m.id === messageId);
+    const active = !target?.reactions?.some(r => r.emoji === emoji && r.senderId === FINGERPRINT && r.active);
+    if (!takeTokens(sendBucketsRef.current.reaction, RATE_LIMITS.reaction)) return;
+    signMemberEvent(state.currentZone.id, { messageId, emoji, senderId: FINGERPRINT, active })
+      .then(reaction => broadcastRoom({ type: 'reaction', reaction }))
+      .catch(err => console.error("Reaction signing failed", err));
+  };
+
+  /**
+   * Asks once per private zone before its decrypted content goes to a remote service.
+   * Public zones need no consent. Returns whether `feature` may go ahead.
+   */
+  const confirmRemoteProcessing = (feature: string): boolean => {
+    const zone = stateRef.current.currentZone;
+    if (zone?.type !== 'private' || remoteConsentZone === zone.id) return true;
+    if (!window.confirm(`${feature} sends this private zone's decrypted content to a remote service. Allow remote processing in this zone?`)) return false;
+    setRemoteConsentZone(zone.id);
+    return true;
+  };
+
+  /** Turns translation on or off; a remote translator needs consent in a private zone. */
+  const changeTranslationLanguage = (language: string | null) => {
+    if (language && getTranslator().remote && !confirmRemoteProcessing("Translation")) return;
+    setPreferredLanguage(language);
+  };
+
   const broadcastTyping = () => {
-    if (!state.currentUser || !state.currentZone || !mqttClientRef.current || typingTimeoutRef.current) return;
-    mqttClientRef.current.publish(`locuschat/v2/rooms/${state.currentZone.id}`, JSON.stringify({ type: 'typing', sender: state.currentUser.username }));
+    if (!state.currentUser || !state.currentZone || typingTimeoutRef.current) return;
+    if (isSilenced(FINGERPRINT) || !takeTokens(sendBucketsRef.current.typing, RATE_LIMITS.typing)) return;
+    broadcastRoom({ type: 'typing', sender: state.currentUser.username, senderId: FINGERPRINT });
     typingTimeoutRef.current = setTimeout(() => { typingTimeoutRef.current = null; }, 2000);
   };
 
+  const showExpiryWarning = !!state.currentZone && state.timeLeft > 0 && state.timeLeft <= EXPIRY_WARNING_MS && expiryDismissedFor !== state.currentZone.expiresAt;
+  const showGeofenceWarning = state.rangeBreachSince !== null;
+  const remoteAllowed = state.currentZone?.type !== 'private' || remoteConsentZone === state.currentZone.id;
+  // A language picked elsewhere stays off in a private zone until the user consents there.
+  const translationLanguage = getTranslator().remote && !remoteAllowed ? null : preferredLanguage;
+
   return (
     <div ref={appRef} className="fixed inset-0 w-full flex flex-col bg-[#0a0a0a] text-gray-100 overflow-hidden">
       {loading.active && (
@@ -467,7 +1455,10 @@ const App: React.FC = () => {
       <Header 
         zone={state.currentZone} timeLeft={state.timeLeft} status={connectionStatus}
         isHost={state.isHost} password={roomPassword} unreadCount={unreadCount}
+        memberCount={Math.max(1, Object.keys(state.roster).length)} onOpenRoster={() => setShowRoster(true)}
         onExitRequest={() => setShowExitConfirm(true)} onShare={handleShare}
+        onCloseZone={() => setShowCloseConfirm(true)}
+        onOpenModeration={() => setShowModeration(true)}
       />
       
       <main className="flex-1 relative overflow-hidden flex flex-col bg-[#0a0a0a]">
@@ -476,27 +1467,103 @@ const App: React.FC = () => {
             <JoinScreen 
               onJoin={joinRoom} onCreate={createRoom} rooms={state.availableRooms}
               deepLinkedZone={pendingZone} isLoading={loading.active}
-            />
-            <Footer 
-              status={connectionStatus} timeLeft={state.timeLeft}
-              totalTime={SESSION_DURATION_MS} distance={state.distance} fingerprint={FINGERPRINT}
+              onOpenSettings={() => setShowBrokerSettings(true)}
             />
           </>
         ) : (
-          <ChatRoom 
-            messages={state.messages} currentUser={state.currentUser} typingUsers={state.typingUsers}
-            onSendMessage={sendMessage} onTyping={broadcastTyping} onRead={() => setUnreadCount(0)}
-          />
+          <>
+            {/* Warnings get their own strip above the chat so its toolbar never covers them. */}
+            {(showExpiryWarning || showGeofenceWarning) && (
+              <div className="shrink-0 px-4 pt-4 space-y-3">
+                {showExpiryWarning && (
+                  <ExpiryWarning
+                    timeLeft={state.timeLeft} isHost={state.isHost}
+                    extendMinutes={Math.max(0, Math.floor((maxExtendedExpiry(state.currentZone) - state.currentZone.expiresAt) / 60000))}
+                    onExtend={handleExtendSession} onRestart={handleRestartZone}
+                    onDismiss={() => setExpiryDismissedFor(state.currentZone?.expiresAt ?? null)}
+                  />
+                )}
+                {state.rangeBreachSince !== null && (
+                  <GeofenceWarning
+                    deadline={state.rangeBreachSince + GEOFENCE_GRACE_MS}
+                    distance={state.distance} radiusKm={state.currentZone.radiusKm}
+                  />
+                )}
+              </div>
+            )}
+            <ChatRoom 
+              messages={state.messages} currentUser={state.currentUser} typingUsers={state.typingUsers}
+              onSendMessage={sendMessage} onTyping={broadcastTyping} onRead={markRead}
+              mutedUntil={state.moderation.mutedUntil[FINGERPRINT] ?? null}
+              selfId={FINGERPRINT} onReact={sendReaction}
+              mediaTransfers={mediaTransfers} onRetryMedia={retryMedia}
+              mediaPolicy={state.currentZone.mediaPolicy} delivery={delivery} flagged={flagged}
+              preferredLanguage={translationLanguage} onLanguageChange={changeTranslationLanguage}
+              expiresAt={state.currentZone.expiresAt}
+              remoteAllowed={remoteAllowed} onRemoteConsent={confirmRemoteProcessing}
+              handles={memberHandles}
+            />
+          </>
         )}
+        <Footer 
+          status={connectionStatus} timeLeft={state.timeLeft}
+          totalTime={state.currentZone ? state.currentZone.expiresAt - state.currentZone.createdAt : SESSION_DURATION_MS}
+          distance={state.distance} fingerprint={FINGERPRINT} health={brokerHealth}
+        />
       </main>
 
+      {showBrokerSettings && !state.currentZone && (
+        <BrokerSettings
+          config={brokerConfig} defaults={getEnvBrokerConfig()}
+          onApply={config => { setBrokerConfig(config); setShowBrokerSettings(false); }}
+          onClose={() => setShowBrokerSettings(false)}
+        />
+      )}
+
+      {showModeration && state.isHost && state.currentZone && (
+        <ModerationPanel
+          members={Object.keys(state.roster)} handles={memberHandles} moderation={state.moderation}
+          selfId={FINGERPRINT} onAction={moderate} onClose={() => setShowModeration(false)}
+        />
+      )}
+
+      {showRoster && state.currentZone && (
+        <RosterDrawer
+          roster={state.roster} selfId={FINGERPRINT} hostId={state.currentZone.hostId}
+          onClose={() => setShowRoster(false)}
+        />
+      )}
+
+      {showCloseConfirm && (
+        <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md p-6 animate-in fade-in duration-300">
+           <div className="max-w-xs w-full glass border border-red-500/20 rounded-[2.5rem] p-8 text-center flex flex-col items-center">
+              <h2 className="text-xl font-bold mb-3 text-white">Close Zone?</h2>
+              <p className="text-gray-400 text-[10px] leading-relaxed mb-8 mono uppercase tracking-widest">Every member will be disconnected and all buffers purged.</p>
+              <div className="flex flex-col w-full gap-3">
+                <button onClick={handleCloseZone} disabled={loading.active} className="w-full py-4 bg-red-500 text-white font-black rounded-2xl uppercase tracking-widest text-[10px] disabled:opacity-50">Close For Everyone</button>
+                <button onClick={() => setShowCloseConfirm(false)} disabled={loading.active} className="w-full py-4 bg-white text-black font-black rounded-2xl uppercase tracking-widest text-[10px] disabled:opacity-50">Cancel</button>
+              </div>
+           </div>
+        </div>
+      )}
+
+      {expiredZoneName && (
+        <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md p-6 animate-in fade-in duration-300">
+           <div className="max-w-xs w-full glass border border-orange-500/20 rounded-[2.5rem] p-8 text-center flex flex-col items-center">
+              <h2 className="text-xl font-bold mb-3 text-white">Zone Expired</h2>
+              <p className="text-gray-400 text-[10px] leading-relaxed mb-8 mono uppercase tracking-widest">{expiredZoneName} reached the end of its session. All buffers were purged.</p>
+              <button onClick={() => setExpiredZoneName(null)} className="w-full py-4 bg-white text-black font-black rounded-2xl uppercase tracking-widest text-[10px]">Understood</button>
+           </div>
+        </div>
+      )}
+
       {showExitConfirm && (
         <div className="absolute inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md p-6 animate-in fade-in duration-300">
            <div className="max-w-xs w-full glass border border-white/10 rounded-[2.5rem] p-8 text-center flex flex-col items-center">
               <h2 className="text-xl font-bold mb-3 text-white">Leave Zone?</h2>
               <p className="text-gray-400 text-[10px] leading-relaxed mb-8 mono uppercase tracking-widest">Local chat buffer will be cleared.</p>
               <div className="flex flex-col w-full gap-3">
-                <button onClick={handleExit} disabled={loading.active} className="w-full py-4 bg-white/10 text-white font-black rounded-2xl uppercase tracking-widest text-[10px] disabled:opacity-50">Exit Now</button>
+                <button onClick={() => handleExit()} disabled={loading.active} className="w-full py-4 bg-white/10 text-white font-black rounded-2xl uppercase tracking-widest text-[10px] disabled:opacity-50">Exit Now</button>
                 <button onClick={() => setShowExitConfirm(false)} disabled={loading.active} className="w-full py-4 bg-white text-black font-black rounded-2xl uppercase tracking-widest text-[10px] disabled:opacity-50">Cancel</button>
               </div>
            </div>
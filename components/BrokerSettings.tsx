@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { BrokerConfig, normalizeTopicPrefix, parseBrokerUrls, validateBrokerConfig } from '../services/brokerConfig';
+
+interface BrokerSettingsProps {
+  config: BrokerConfig;
+  defaults: BrokerConfig;
+  onApply: (config: BrokerConfig) => void;
+  onClose: () => void;
+}
+
+const BrokerSettings: React.FC<BrokerSettingsProps> = ({ config, defaults, onApply, onClose }) => {
+  const [urls, setUrls] = useState(config.urls.join('\n'));
+  const [username, setUsername] = useState(config.username || '');
+  const [password, setPassword] = useState(config.password || '');
+  const [topicPrefix, setTopicPrefix] = useState(config.topicPrefix);
+  const [rejectUnauthorized, setRejectUnauthorized] = useState(config.rejectUnauthorized);
+
+  const handleApply = () => {
+    const next: BrokerConfig = {
+      urls: parseBrokerUrls(urls),
+      username: username.trim() || undefined,
+      password: password || undefined,
+      topicPrefix: normalizeTopicPrefix(topicPrefix),
+      rejectUnauthorized,
+    };
+    const problem = validateBrokerConfig(next);
+    if (problem) return alert(problem);
+    onApply(next);
+  };
+
+  const handleReset = () => {
+    setUrls(defaults.urls.join('\n'));
+    setUsername(defaults.username || '');
+    setPassword(defaults.password || '');
+    setTopicPrefix(defaults.topicPrefix);
+    setRejectUnauthorized(defaults.rejectUnauthorized);
+  };
+
+  const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-white/30 text-white font-bold text-xs mono";
+  const labelClass = "text-[8px] font-black uppercase tracking-[0.3em] text-gray-600 mb-2 block text-left px-1";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black/90 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="max-w-sm w-full glass border border-white/10 p-8 rounded-[2.5rem] shadow-2xl animate-in zoom-in duration-300 max-h-full overflow-y-auto no-scrollbar">
+        <h3 className="text-sm font-black uppercase tracking-[0.3em] text-white mb-1 text-center">Network Settings</h3>
+        <p className="text-[9px] font-bold text-gray-600 uppercase tracking-widest text-center mb-8">Session only • Never stored</p>
+
+        <div className="space-y-4 mb-8">
+          <div>
+            <label className={labelClass}>Brokers (tried in order)</label>
+            <textarea
+              rows={3}
+              value={urls}
+              onChange={e => setUrls(e.target.value)}
+              placeholder="wss://broker.example.com:8084/mqtt"
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className={labelClass}>Username</label>
+              <input value={username} onChange={e => setUsername(e.target.value)} autoComplete="off" className={inputClass} />
+            </div>
+            <div className="flex-1">
+              <label className={labelClass}>Password</label>
+              <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="off" className={inputClass} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Topic Prefix</label>
+            <input value={topicPrefix} onChange={e => setTopicPrefix(e.target.value)} className={inputClass} />
+          </div>
+          <button
+            onClick={() => setRejectUnauthorized(!rejectUnauthorized)}
+            className="w-full flex items-center justify-between bg-white/5 border border-white/10 rounded-xl px-4 py-3"
+          >
+            <span className="text-[9px] font-black uppercase tracking-widest text-gray-400">Verify TLS Certificates</span>
+            <span className={`text-[9px] font-black mono ${rejectUnauthorized ? 'text-green-500' : 'text-red-500'}`}>
+              {rejectUnauthorized ? 'ON' : 'OFF'}
+            </span>
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={handleApply}
+            className="w-full py-4 bg-white text-black font-black uppercase tracking-widest text-[10px] rounded-xl active:scale-95 shadow-xl transition-all"
+          >
+            Apply & Reconnect
+          </button>
+          <div className="flex gap-3">
+            <button onClick={handleReset} className="flex-1 py-3 bg-white/5 text-gray-500 font-black uppercase tracking-widest text-[9px] rounded-xl hover:bg-white/10 transition-all">
+              Defaults
+            </button>
+            <button onClick={onClose} className="flex-1 py-3 bg-white/5 text-gray-500 font-black uppercase tracking-widest text-[9px] rounded-xl hover:bg-white/10 transition-all">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrokerSettings;
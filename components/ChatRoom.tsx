@@ -1,31 +1,108 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Message, User, MediaType } from '../types';
-import { moderateContent } from '../services/geminiService';
-import { MAX_VIDEO_DURATION_S } from '../constants';
-import { compressImage, fileToBase64, isSafePayloadSize, getSupportedAudioMimeType, getSupportedVideoMimeType } from '../utils/media';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MediaDescriptor, MediaPolicy, MediaTransferState, MessageDelivery, Message, MessageReference, MessageTranslation, User, MediaType, ZoneSummary } from '../types';
+import { displayHandle, outgoingModeration } from '../services/moderationService';
+import { summarizeZone } from '../services/summaryService';
+import { getTranslator, needsTranslation } from '../services/translationService';
+import { getTranscriber, transcribe } from '../services/transcriptionService';
+import { getDefaultLanguage, getLanguageLabel } from '../utils/language';
+import { MessageSearchIndex, MessageSearchQuery, searchTerms } from '../utils/messageSearch';
+import { MAX_VIDEO_DURATION_S, REACTION_EMOJIS, TRANSLATION_LANGUAGES, TRANSLATION_WINDOW } from '../constants';
+import { groupReactions, toMessageReference } from '../utils/messages';
+import { compressImage, getMaxMediaSizeMb, isMediaAllowed, isWithinMediaLimit, getSupportedAudioMimeType, getSupportedVideoMimeType } from '../utils/media';
+
+const SEARCH_TYPES: (MediaType | 'all')[] = ['all', 'text', 'image', 'video', 'audio'];
+const SEARCH_RANGES: { label: string; ms: number | null }[] = [
+  { label: 'Any time', ms: null },
+  { label: '15m', ms: 15 * 60 * 1000 },
+  { label: '1h', ms: 60 * 60 * 1000 },
+];
+const EMPTY_SEARCH: MessageSearchQuery = { text: '', sender: '', type: 'all', withinMs: null };
+
+/**
+ * Wraps every occurrence of the search terms in a highlight.
+ */
+const highlightTerms = (text: string, terms: string[]): React.ReactNode => {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(`(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return text.split(pattern).map((part, i) => i % 2 === 1 ? <mark key={i} className="bg-yellow-400/40 text-inherit rounded-sm">{part}</mark> : part);
+};
+
+/** Rough time left for the empty state, e.g. "2 hours" or "25 minutes". */
+const formatTimeLeft = (ms: number): string => {
+  const mins = Math.max(1, Math.round(ms / 60000));
+  if (mins < 60) return `${mins} ${mins === 1 ? 'minute' : 'minutes'}`;
+  const hours = Math.round(mins / 60);
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+// Below this many messages there is nothing worth summarizing.
+const CATCH_UP_MIN_MESSAGES = 10;
 
 interface ChatRoomProps {
   messages: Message[];
   currentUser: User | null;
   typingUsers: Record<string, number>;
-  onSendMessage: (text: string, type: MediaType, mediaData?: string) => Promise<void>;
+  onSendMessage: (text: string, type: MediaType, media?: Blob, replyTo?: MessageReference, transcript?: string) => Promise<void>;
   onTyping: () => void;
   onRead: () => void;
+  mutedUntil?: number | null;
+  selfId: string;
+  onReact: (messageId: string, emoji: string) => void;
+  mediaTransfers: Record<string, MediaTransferState>;
+  onRetryMedia: (descriptor: MediaDescriptor) => void;
+  mediaPolicy: MediaPolicy;
+  delivery: Record<string, MessageDelivery>;
+  /** Reasons for incoming messages the local rules flagged, by message id. */
+  flagged: Record<string, string>;
+  /** Language incoming messages are translated into; null while translation is off. */
+  preferredLanguage: string | null;
+  onLanguageChange: (language: string | null) => void;
+  /** When the zone closes, shown in the empty state. */
+  expiresAt: number;
+  /** Whether this zone's content may go to remote services without asking; false in a private zone until the user consents. */
+  remoteAllowed: boolean;
+  /** Asks for that consent; returns whether the named feature may go ahead. */
+  onRemoteConsent: (feature: string) => boolean;
+  /** Screened handles from members' presence, by fingerprint. */
+  handles: Record<string, string>;
 }
 
-const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers, onSendMessage, onTyping, onRead }) => {
+const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers, onSendMessage, onTyping, onRead, mutedUntil, selfId, onReact, mediaTransfers, onRetryMedia, mediaPolicy, delivery, flagged, preferredLanguage, onLanguageChange, expiresAt, remoteAllowed, onRemoteConsent, handles }) => {
   const [input, setInput] = useState('');
   const [isModerating, setIsModerating] = useState(false);
   const [recordingMode, setRecordingMode] = useState<'none' | 'audio' | 'video'>('none');
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
-  const [reviewData, setReviewData] = useState<{ type: MediaType; data: string } | null>(null);
+  const [reviewData, setReviewData] = useState<{ type: MediaType; blob: Blob; url: string } | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [processingStatus, setProcessingStatus] = useState<string | null>(null);
   const [fullScreenMedia, setFullScreenMedia] = useState<string | null>(null);
   const [showCameraSelector, setShowCameraSelector] = useState(false);
   const [isAtBottom, setIsAtBottom] = useState(true);
   const [showNewMessageBadge, setShowNewMessageBadge] = useState(false);
+  const [, setMuteCheckedAt] = useState(0);
+  const [replyingTo, setReplyingTo] = useState<MessageReference | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+  const [summaryCard, setSummaryCard] = useState<{ summary: ZoneSummary; anchorId: string } | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [translations, setTranslations] = useState<Record<string, MessageTranslation>>({});
+  const [showOriginal, setShowOriginal] = useState<Set<string>>(new Set());
+  const translatingRef = useRef<Set<string>>(new Set());
+  const translationTargetRef = useRef(preferredLanguage);
+  translationTargetRef.current = preferredLanguage;
+  const [captionVoiceNotes, setCaptionVoiceNotes] = useState(true);
+  // Like translation, remote captions stay off in a private zone until the user consents there.
+  const captionsOn = captionVoiceNotes && (!getTranscriber()?.remote || remoteAllowed);
+  // Captions fetched on demand for voice notes that arrived without one, by message id.
+  const [localTranscripts, setLocalTranscripts] = useState<Record<string, { status: 'pending' | 'done' | 'failed'; text?: string }>>({});
+  const [expandedCaptions, setExpandedCaptions] = useState<Set<string>>(new Set());
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<MessageSearchQuery>(EMPTY_SEARCH);
+  // Index into the matches, newest first; -1 until the first step selects the newest one.
+  const [searchCursor, setSearchCursor] = useState(-1);
+  const searchIndexRef = useRef(new MessageSearchIndex());
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
@@ -38,7 +115,76 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
   const streamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
 
+  // Translate other members' recent text messages into the preferred language, newest first, one at a time.
+  useEffect(() => {
+    const target = preferredLanguage;
+    if (!target) return;
+    const pending = messages
+      .slice(-TRANSLATION_WINDOW)
+      .filter(m => !m.isSystem && m.type === 'text' && m.senderId !== selfId && !flagged[m.id])
+      .filter(m => translations[m.id]?.target !== target && !translatingRef.current.has(`${m.id}:${target}`))
+      .filter(m => needsTranslation(m.text, target))
+      .reverse();
+    if (pending.length === 0) return;
+    pending.forEach(m => translatingRef.current.add(`${m.id}:${target}`));
+    setTranslations(prev => {
+      const next = { ...prev };
+      pending.forEach(m => { next[m.id] = { status: 'pending', target }; });
+      return next;
+    });
+
+    const translator = getTranslator();
+    (async () => {
+      for (const m of pending) {
+        translatingRef.current.delete(`${m.id}:${target}`);
+        // Switching language or turning translation off stops the queue; nothing more is sent.
+        if (translationTargetRef.current !== target) {
+          setTranslations(prev => {
+            if (prev[m.id]?.target !== target || prev[m.id].status !== 'pending') return prev;
+            const { [m.id]: _dropped, ...rest } = prev;
+            return rest;
+          });
+          continue;
+        }
+        let entry: MessageTranslation;
+        try {
+          const result = await translator.translate(m.text, target);
+          entry = { status: 'done', target, ...result };
+        } catch (err) {
+          console.warn(`Translation via ${translator.name} failed`, err);
+          entry = { status: 'failed', target };
+        }
+        setTranslations(prev => prev[m.id]?.target === target ? { ...prev, [m.id]: entry } : prev);
+      }
+    })();
+  }, [messages, preferredLanguage]);
+
+  // The handle shown for each sender: the screened one from their presence, or, for members
+  // this device never heard from, the handle their messages claim, screened the same way.
+  const senderNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    messages.forEach(m => {
+      if (!m.isSystem) names[m.senderId] = handles[m.senderId] ?? displayHandle(m.sender, m.senderId);
+    });
+    return names;
+  }, [messages, handles]);
+
+  // Handles used by more than one session get a fingerprint tag so impersonation stands out.
+  const sharedHandles = useMemo(() => {
+    const owners = new Map<string, number>();
+    Object.values(senderNames).forEach(name => owners.set(name, (owners.get(name) ?? 0) + 1));
+    return new Set([...owners].filter(([, count]) => count > 1).map(([handle]) => handle));
+  }, [senderNames]);
+
   const activeTypingList = Object.keys(typingUsers).filter(u => u !== currentUser?.username);
+  const isMuted = !!mutedUntil && mutedUntil > Date.now();
+
+  // Re-render once the host's mute runs out so the composer comes back.
+  useEffect(() => {
+    if (!mutedUntil || mutedUntil <= Date.now()) return;
+    const timer = setTimeout(() => setMuteCheckedAt(Date.now()), mutedUntil - Date.now());
+    return () => clearTimeout(timer);
+  }, [mutedUntil]);
 
   const handleScroll = () => {
     if (!scrollRef.current) return;
@@ -62,16 +208,38 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
     }
   };
 
+  // Keyed on length so reaction updates do not count as new transmissions.
   useEffect(() => {
     if (isAtBottom) {
       scrollToBottom('smooth');
     } else if (messages.length > 0) {
       const lastMsg = messages[messages.length - 1];
-      if (lastMsg.sender !== currentUser?.username && !lastMsg.isSystem) {
+      if (lastMsg.senderId !== selfId && !lastMsg.isSystem) {
         setShowNewMessageBadge(true);
       }
     }
-  }, [messages]);
+  }, [messages.length]);
+
+  const stageReview = (type: MediaType, blob: Blob) => {
+    if (!isWithinMediaLimit(blob)) {
+      alert(`Attachment exceeds the ${getMaxMediaSizeMb()} MB limit.`);
+      return;
+    }
+    setReviewData({ type, blob, url: URL.createObjectURL(blob) });
+  };
+
+  const discardReview = () => {
+    if (reviewData) URL.revokeObjectURL(reviewData.url);
+    setReviewData(null);
+  };
+
+  const jumpToMessage = (id: string) => {
+    const el = document.getElementById(`msg-${id}`);
+    if (!el) return alert("The original message is no longer in this buffer.");
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(id);
+    setTimeout(() => setHighlightedId(current => current === id ? null : current), 1500);
+  };
 
   useEffect(() => {
     if (recordingMode === 'video' && videoPreviewRef.current && streamRef.current) {
@@ -82,6 +250,10 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    if (file.type.startsWith('video/') && !isMediaAllowed(mediaPolicy, 'video')) {
+      e.target.value = '';
+      return alert("This zone only accepts images.");
+    }
 
     setProcessingStatus("OPTIMIZING MEDIA...");
     try {
@@ -94,15 +266,8 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
             alert(`Video exceeds ${MAX_VIDEO_DURATION_S}s limit.`);
             setProcessingStatus(null);
           } else {
-            setProcessingStatus("PREPARING SECURE TUNNEL...");
-            const base64 = await fileToBase64(file);
-            if (!isSafePayloadSize(base64)) {
-              alert("File too large. Use in-app recording for better compression.");
-              setProcessingStatus(null);
-            } else {
-              setReviewData({ type: 'video', data: base64 });
-              setProcessingStatus(null);
-            }
+            stageReview('video', file);
+            setProcessingStatus(null);
           }
         };
         video.onerror = () => {
@@ -111,8 +276,7 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
         };
         video.src = URL.createObjectURL(file);
       } else if (file.type.startsWith('image/')) {
-        const compressedBase64 = await compressImage(file);
-        setReviewData({ type: 'image', data: compressedBase64 });
+        stageReview('image', await compressImage(file));
         setProcessingStatus(null);
       } else {
         alert("Unsupported file type.");
@@ -179,9 +343,7 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
       recorder.ondataavailable = (e) => audioChunksRef.current.push(e.data);
       recorder.onstop = async () => {
         setProcessingStatus("ENCRYPTING AUDIO...");
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        const base64 = await fileToBase64(audioBlob);
-        setReviewData({ type: 'audio', data: base64 });
+        stageReview('audio', new Blob(audioChunksRef.current, { type: 'audio/webm' }));
         setProcessingStatus(null);
         cleanupStream();
       };
@@ -229,9 +391,9 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
       const stream = await navigator.mediaDevices.getUserMedia({ 
         video: { 
           facingMode: mode, 
-          width: { ideal: 480 }, 
-          height: { ideal: 480 }, 
-          frameRate: { ideal: 15 } 
+          width: { ideal: 720 }, 
+          height: { ideal: 720 }, 
+          frameRate: { ideal: 24 } 
         }, 
         audio: true 
       });
@@ -241,7 +403,7 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
       const mimeType = getSupportedVideoMimeType();
       const recorder = new MediaRecorder(stream, { 
         mimeType, 
-        videoBitsPerSecond: 105000, 
+        videoBitsPerSecond: 800000, 
         audioBitsPerSecond: 32000 
       });
       
@@ -251,13 +413,7 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
       recorder.ondataavailable = (e) => audioChunksRef.current.push(e.data);
       recorder.onstop = async () => {
         setProcessingStatus("ENCRYPTING VIDEO...");
-        const videoBlob = new Blob(audioChunksRef.current, { type: 'video/webm' });
-        const base64 = await fileToBase64(videoBlob);
-        if (isSafePayloadSize(base64)) {
-          setReviewData({ type: 'video', data: base64 });
-        } else {
-          alert("Recording too large for ephemeral transport. Shorter clip recommended.");
-        }
+        stageReview('video', new Blob(audioChunksRef.current, { type: 'video/webm' }));
         setProcessingStatus(null);
         cleanupStream();
       };
@@ -311,10 +467,28 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
 
   const handleSendMedia = async () => {
     if (reviewData) {
+      let transcript: string | undefined;
+      if (reviewData.type === 'audio' && captionsOn && getTranscriber()) {
+        setProcessingStatus("TRANSCRIBING VOICE NOTE...");
+        // A failed caption never blocks the voice note itself.
+        transcript = await transcribe(reviewData.blob, preferredLanguage ?? getDefaultLanguage()).catch(err => {
+          console.warn("Voice note transcription failed", err);
+          return undefined;
+        });
+      }
+      setProcessingStatus("SCREENING CONTENT...");
+      const check = await outgoingModeration.check({
+        senderId: selfId, type: reviewData.type, text: transcript || '', key: `${reviewData.type}:${reviewData.blob.size}`, media: reviewData.blob,
+      });
+      if (!check.safe) {
+        setProcessingStatus(null);
+        return alert(`Blocked: ${check.reason || 'Safety violation'}`);
+      }
       setProcessingStatus("TRANSMITTING TO RADIUS...");
       try {
-        await onSendMessage('', reviewData.type, reviewData.data);
-        setReviewData(null);
+        await onSendMessage('', reviewData.type, reviewData.blob, replyingTo ?? undefined, transcript);
+        discardReview();
+        setReplyingTo(null);
         setProcessingStatus(null);
         setTimeout(() => scrollToBottom('smooth'), 100);
       } catch (e) {
@@ -329,13 +503,14 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
     if (!text || isModerating || processingStatus) return;
 
     setIsModerating(true);
-    const check = await moderateContent(text);
+    const check = await outgoingModeration.check({ senderId: selfId, type: 'text', text, key: text });
     setIsModerating(false);
 
     if (check.safe) {
       try {
-        await onSendMessage(text, 'text');
+        await onSendMessage(text, 'text', undefined, replyingTo ?? undefined);
         setInput('');
+        setReplyingTo(null);
         if (textAreaRef.current) textAreaRef.current.style.height = 'auto';
         setTimeout(() => scrollToBottom('smooth'), 50);
       } catch (e) {
@@ -346,8 +521,346 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
     }
   };
 
+  const catchUpCount = messages.filter(m => !m.isSystem).length;
+
+  // The index re-reads only messages that are new or changed since the last render, whether they
+  // were appended live or merged in from history. Captions and translations made on this device count too.
+  const searchResults = useMemo(() => {
+    if (!showSearch) return [];
+    searchIndexRef.current.sync(messages, msg => [
+      localTranscripts[msg.id]?.text || '',
+      translations[msg.id]?.status === 'done' && translations[msg.id].target === preferredLanguage ? translations[msg.id].text || '' : '',
+    ]);
+    return searchIndexRef.current.search(searchQuery);
+  }, [showSearch, messages, localTranscripts, translations, preferredLanguage, searchQuery]);
+  const searchMatches = useMemo(() => new Set(searchResults), [searchResults]);
+  const highlight = showSearch ? searchTerms(searchQuery.text) : [];
+
+  const updateSearch = (patch: Partial<MessageSearchQuery>) => {
+    setSearchQuery(prev => ({ ...prev, ...patch }));
+    setSearchCursor(-1);
+  };
+
+  /** Steps through the matches, newest first, and scrolls to the selected one. */
+  const stepSearch = (delta: number) => {
+    if (searchResults.length === 0) return;
+    const cursor = searchCursor < 0 ? 0 : (searchCursor + delta + searchResults.length) % searchResults.length;
+    setSearchCursor(cursor);
+    jumpToMessage(searchResults[searchResults.length - 1 - cursor]);
+  };
+
+  const closeSearch = () => {
+    setShowSearch(false);
+    setSearchQuery(EMPTY_SEARCH);
+    setSearchCursor(-1);
+  };
+
+  /** The message with a caption fetched on this device filled in, if it came without one. */
+  const withTranscript = (msg: Message): Message => {
+    const local = localTranscripts[msg.id];
+    return !msg.transcript && local?.text ? { ...msg, transcript: local.text } : msg;
+  };
+
+  const toggleCaptions = () => {
+    if (captionsOn) return setCaptionVoiceNotes(false);
+    if (getTranscriber()?.remote && !remoteAllowed && !onRemoteConsent("Captioning")) return;
+    setCaptionVoiceNotes(true);
+  };
+
+  /**
+   * Receiver-side captioning. The audio is already reassembled in RAM behind its object URL.
+   */
+  const handleTranscribe = async (msg: Message, url: string) => {
+    if (localTranscripts[msg.id]?.status === 'pending') return;
+    if (getTranscriber()?.remote && !remoteAllowed && !onRemoteConsent("Transcription")) return;
+    setLocalTranscripts(prev => ({ ...prev, [msg.id]: { status: 'pending' } }));
+    try {
+      const text = await transcribe(await (await fetch(url)).blob(), preferredLanguage ?? getDefaultLanguage());
+      setLocalTranscripts(prev => ({ ...prev, [msg.id]: { status: 'done', text } }));
+      setExpandedCaptions(prev => new Set(prev).add(msg.id));
+    } catch (err) {
+      console.warn("Voice note transcription failed", err);
+      setLocalTranscripts(prev => ({ ...prev, [msg.id]: { status: 'failed' } }));
+    }
+  };
+
+  /**
+   * Summarizes the buffer up to now and pins the card after the newest message. Blurred
+   * messages are left out so the summary cannot reveal them.
+   */
+  const handleCatchUp = async () => {
+    const anchor = messages[messages.length - 1];
+    if (!anchor || isSummarizing) return;
+    setIsSummarizing(true);
+    try {
+      const summary = await summarizeZone(messages.filter(m => !flagged[m.id]).map(withTranscript), remoteAllowed);
+      setSummaryCard({ summary, anchorId: anchor.id });
+      setTimeout(() => scrollToBottom('smooth'), 50);
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  const renderSummaryCard = (summary: ZoneSummary) => (
+    <div className="flex justify-center my-6 animate-message">
+      <div className="w-full max-w-md glass border border-white/10 rounded-3xl p-5 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-[9px] font-black uppercase tracking-[0.3em] text-white">Catch Up • {summary.messageCount} msgs</span>
+          <div className="flex items-center gap-3">
+            <span className="text-[8px] mono font-bold uppercase tracking-widest text-gray-600">{summary.source === 'gemini' ? 'Gemini' : 'Offline'}</span>
+            <button onClick={() => setSummaryCard(null)} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">Close</button>
+          </div>
+        </div>
+        <ul className="space-y-2">
+          {summary.points.map((point, i) => (
+            <li key={i} className="text-[13px] text-gray-300 leading-relaxed break-words">{point}</li>
+          ))}
+        </ul>
+        {summary.openQuestions.length > 0 && (
+          <div className="space-y-2 pt-3 border-t border-white/5">
+            <span className="block text-[9px] font-black uppercase tracking-widest text-orange-400">Open Questions</span>
+            {summary.openQuestions.map((question, i) => (
+              <p key={i} className="text-[12px] text-gray-400 leading-relaxed break-words">{question}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderMessage = (msg: Message, idx: number) => {
+    const isMe = msg.senderId === selfId;
+    const showSender = idx === 0 || messages[idx-1].senderId !== msg.senderId || messages[idx-1].isSystem;
+    const transfer = msg.media ? mediaTransfers[msg.media.transferId] : undefined;
+    const mediaUrl = transfer?.url;
+    const progress = transfer && transfer.total > 0 ? Math.floor((transfer.done / transfer.total) * 100) : 0;
+    const deliveryState = isMe ? delivery[msg.id] : undefined;
+    const reactions = groupReactions(msg.reactions);
+    const hidden = !!flagged[msg.id] && !revealed.has(msg.id);
+    const translation = translations[msg.id];
+    const translated = msg.type === 'text' && translation?.status === 'done' && translation.target === preferredLanguage && !!translation.text && translation.text !== msg.text;
+    const original = showOriginal.has(msg.id);
+    const localCaption = localTranscripts[msg.id];
+    const caption = msg.transcript ?? (localCaption?.status === 'done' ? localCaption.text : undefined);
+    const matched = searchMatches.has(msg.id);
+    const captionExpanded = expandedCaptions.has(msg.id) || (matched && highlight.length > 0);
+
+    if (msg.isSystem) {
+      return (
+        <div key={msg.id} className="flex justify-center my-6">
+          <span className="text-[9px] mono uppercase tracking-[0.3em] text-gray-600 font-bold bg-white/[0.03] px-4 py-1 rounded-full">
+            {msg.text}
+          </span>
+        </div>
+      );
+    }
+
+    return (
+      <div key={msg.id} id={`msg-${msg.id}`} className={`flex flex-col ${isMe ? 'items-end' : 'items-start'} animate-message`}>
+        {showSender && (
+          <div className={`flex items-baseline gap-2 mb-1 px-1 ${isMe ? 'flex-row-reverse' : ''}`}>
+            <span className={`text-[10px] font-black uppercase tracking-widest ${isMe ? 'text-white' : 'text-gray-500'}`}>
+              {senderNames[msg.senderId]}
+            </span>
+            {sharedHandles.has(senderNames[msg.senderId]) && (
+              <span className="text-[8px] mono font-bold text-orange-400" title="Another member uses this handle">
+                #{msg.senderId.slice(0, 4)}
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className={`max-w-[85%] rounded-2xl overflow-hidden shadow-2xl transition-all ${
+          isMe ? 'bubble-me rounded-tr-none' : 'bubble-them text-gray-200 rounded-tl-none'
+        } ${highlightedId === msg.id ? 'ring-2 ring-white/40' : matched ? 'ring-1 ring-yellow-400/40' : ''}`}>
+          {msg.replyTo && (
+            <button
+              onClick={() => jumpToMessage(msg.replyTo!.id)}
+              className="block w-full text-left px-4 pt-3 pb-1"
+            >
+              <div className="border-l-2 border-white/20 pl-3 py-1 bg-white/[0.03] rounded-r-lg">
+                <span className="block text-[9px] font-black uppercase tracking-widest opacity-60">{msg.replyTo.sender}</span>
+                <span className="block text-[12px] opacity-50 truncate">{msg.replyTo.preview}</span>
+              </div>
+            </button>
+          )}
+
+          <div className="relative">
+            <div className={hidden ? 'blur-md pointer-events-none select-none' : ''} aria-hidden={hidden}>
+              {msg.type === 'text' && <div className="px-4 py-3 text-[15px] font-medium leading-relaxed break-words whitespace-pre-wrap">{highlightTerms((translated && !original ? translation.text : msg.text) || '', matched ? highlight : [])}</div>}
+              {translated && (
+                <button
+                  onClick={() => setShowOriginal(prev => {
+                    const next = new Set(prev);
+                    if (!next.delete(msg.id)) next.add(msg.id);
+                    return next;
+                  })}
+                  className="block px-4 pb-3 -mt-2 text-left text-[8px] font-black uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity"
+                >
+                  {original ? 'Show translation' : `Translated from ${getLanguageLabel(translation.sourceLanguage || 'und')} • Show original`}
+                </button>
+              )}
+
+              {msg.media && mediaUrl === undefined && (
+                <div className="px-4 py-3 min-w-[220px] flex flex-col gap-2">
+                  {!transfer ? (
+                    // Attachments synced with history are only fetched on request.
+                    <button onClick={() => onRetryMedia(msg.media!)} className="flex items-center justify-between gap-3">
+                      <span className="text-[9px] font-black uppercase tracking-widest opacity-60">{msg.type} • {(msg.media.size / (1024 * 1024)).toFixed(1)} MB</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest text-white">Load</span>
+                    </button>
+                  ) : transfer.status === 'failed' ? (
+                    <button onClick={() => onRetryMedia(msg.media!)} className="flex items-center justify-between gap-3">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-red-400">{msg.type} transfer failed</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest text-white">Retry</span>
+                    </button>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-[9px] font-black uppercase tracking-widest opacity-60">
+                          {transfer?.status === 'sending' ? 'Transmitting' : 'Receiving'} {msg.type}
+                        </span>
+                        <span className="text-[9px] font-bold mono opacity-60">
+                          {(msg.media.size / (1024 * 1024)).toFixed(1)} MB • {progress}%
+                        </span>
+                      </div>
+                      <div className="h-1 w-full bg-white/10 rounded-full overflow-hidden">
+                        <div className="h-full bg-white/60 rounded-full transition-all" style={{ width: `${progress}%` }}></div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {msg.type === 'image' && mediaUrl && (
+                <img 
+                  src={mediaUrl} 
+                  alt="Shared content" 
+                  className="max-h-[60vh] w-auto object-contain cursor-pointer active:scale-98 transition-transform"
+                  onClick={() => setFullScreenMedia(mediaUrl)}
+                />
+              )}
+
+              {msg.type === 'video' && mediaUrl && (
+                <div className="relative group">
+                  <video 
+                    controls 
+                    playsInline 
+                    style={{ transform: 'none' }} 
+                    className="max-h-[60vh] w-full bg-black"
+                    onError={() => alert("Secure playback failed. Media may have expired from RAM.")}
+                  >
+                    <source src={mediaUrl} />
+                  </video>
+                </div>
+              )}
+
+              {msg.type === 'audio' && mediaUrl && (
+                <div className="px-4 py-3 min-w-[240px] bg-white/5 flex flex-col gap-1">
+                  <audio controls className="w-full h-10 scale-95 invert contrast-125">
+                    <source src={mediaUrl} />
+                  </audio>
+                  {!caption && getTranscriber() && (
+                    <button
+                      onClick={() => handleTranscribe(msg, mediaUrl)}
+                      disabled={localCaption?.status === 'pending'}
+                      className="self-start text-[8px] font-black uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity disabled:opacity-30"
+                    >
+                      {localCaption?.status === 'pending' ? 'Transcribing...' : localCaption?.status === 'failed' ? 'Transcription failed • Retry' : 'Transcribe'}
+                    </button>
+                  )}
+                </div>
+              )}
+              {msg.type === 'audio' && caption !== undefined && (
+                <button
+                  onClick={() => setExpandedCaptions(prev => {
+                    const next = new Set(prev);
+                    if (!next.delete(msg.id)) next.add(msg.id);
+                    return next;
+                  })}
+                  className="block w-full px-4 py-2 text-left border-t border-white/5"
+                >
+                  <span className="block text-[8px] font-black uppercase tracking-widest opacity-50">
+                    Captions {captionExpanded ? '▴' : '▾'}
+                  </span>
+                  {captionExpanded && (
+                    <span className="block mt-1 text-[13px] leading-relaxed break-words whitespace-pre-wrap opacity-80">
+                      {caption ? highlightTerms(caption, matched ? highlight : []) : 'No speech detected.'}
+                    </span>
+                  )}
+                </button>
+              )}
+            </div>
+            {hidden && (
+              <button
+                onClick={() => setRevealed(prev => new Set(prev).add(msg.id))}
+                className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/40 px-4 text-center"
+              >
+                <span className="text-[9px] font-black uppercase tracking-widest text-orange-400">Flagged: {flagged[msg.id]}</span>
+                <span className="text-[8px] font-bold uppercase tracking-widest text-gray-400">Tap to reveal</span>
+              </button>
+            )}
+          </div>
+        </div>
+        {Object.keys(reactions).length > 0 && (
+          <div className={`flex flex-wrap gap-1 mt-1 px-1 ${isMe ? 'justify-end' : ''}`}>
+            {Object.entries(reactions).map(([emoji, members]) => (
+              <button
+                key={emoji}
+                onClick={() => onReact(msg.id, emoji)}
+                className={`px-2 py-0.5 rounded-full text-[11px] border flex items-center gap-1 transition-all active:scale-90 ${
+                  members.includes(selfId) ? 'bg-white/15 border-white/30' : 'bg-white/5 border-white/5'
+                }`}
+              >
+                <span>{emoji}</span>
+                <span className="text-[9px] font-black mono text-gray-400">{members.length}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {reactionPickerFor === msg.id && (
+          <div className="flex gap-1 mt-1 px-2 py-1 bg-white/5 border border-white/10 rounded-full animate-in fade-in duration-150">
+            {REACTION_EMOJIS.map(emoji => (
+              <button
+                key={emoji}
+                onClick={() => { onReact(msg.id, emoji); setReactionPickerFor(null); }}
+                className="w-7 h-7 flex items-center justify-center text-[15px] rounded-full hover:bg-white/10 active:scale-90 transition-all"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className={`flex items-center gap-2 mt-1 px-1 ${isMe ? 'flex-row-reverse' : ''}`}>
+          <span className="text-[8px] text-gray-700 font-bold mono">
+            {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          {deliveryState && (
+            <span className={`text-[8px] font-black uppercase tracking-widest mono ${deliveryState.status === 'sending' ? 'text-orange-500/70 animate-pulse' : 'text-gray-600'}`}>
+              {deliveryState.status === 'sending' ? 'Sending' : deliveryState.seenBy.length > 0 ? `Seen by ${deliveryState.seenBy.length}` : 'Sent'}
+            </span>
+          )}
+          <button
+            onClick={() => { setReplyingTo(toMessageReference(msg)); textAreaRef.current?.focus(); }}
+            className="text-[8px] font-black uppercase tracking-widest text-gray-700 hover:text-white transition-colors"
+          >
+            Reply
+          </button>
+          <button
+            onClick={() => setReactionPickerFor(reactionPickerFor === msg.id ? null : msg.id)}
+            className="text-[8px] font-black uppercase tracking-widest text-gray-700 hover:text-white transition-colors"
+          >
+            React
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
-    <div className="flex flex-col h-full bg-[#0a0a0a] overflow-hidden relative">
+    <div className="flex flex-col flex-1 min-h-0 bg-[#0a0a0a] overflow-hidden relative">
       <div 
         ref={scrollRef}
         onScroll={handleScroll}
@@ -368,77 +881,17 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
             </div>
             <div className="max-w-xs py-4 px-6 bg-white/[0.02] border border-white/5 rounded-3xl">
               <p className="text-[9px] font-black uppercase tracking-widest text-gray-600 leading-relaxed">
-                Be respectful. This chat ends in 2 hours.<br/>All data is permanently purged upon exit.
+                Be respectful. This chat ends in {formatTimeLeft(expiresAt - Date.now())}.<br/>All data is permanently purged upon exit.
               </p>
             </div>
           </div>
         ) : (
-          messages.map((msg, idx) => {
-            const isMe = msg.sender === currentUser?.username;
-            const showSender = idx === 0 || messages[idx-1].sender !== msg.sender || messages[idx-1].isSystem;
-
-            if (msg.isSystem) {
-              return (
-                <div key={msg.id} className="flex justify-center my-6">
-                  <span className="text-[9px] mono uppercase tracking-[0.3em] text-gray-600 font-bold bg-white/[0.03] px-4 py-1 rounded-full">
-                    {msg.text}
-                  </span>
-                </div>
-              );
-            }
-
-            return (
-              <div key={msg.id} className={`flex flex-col ${isMe ? 'items-end' : 'items-start'} animate-message`}>
-                {showSender && (
-                  <div className={`flex items-baseline gap-2 mb-1 px-1 ${isMe ? 'flex-row-reverse' : ''}`}>
-                    <span className={`text-[10px] font-black uppercase tracking-widest ${isMe ? 'text-white' : 'text-gray-500'}`}>
-                      {msg.sender}
-                    </span>
-                  </div>
-                )}
-                
-                <div className={`max-w-[85%] rounded-2xl overflow-hidden shadow-2xl transition-all ${
-                  isMe ? 'bubble-me rounded-tr-none' : 'bubble-them text-gray-200 rounded-tl-none'
-                }`}>
-                  {msg.type === 'text' && <div className="px-4 py-3 text-[15px] font-medium leading-relaxed break-words whitespace-pre-wrap">{msg.text}</div>}
-                  
-                  {msg.type === 'image' && (
-                    <img 
-                      src={msg.mediaData} 
-                      alt="Shared content" 
-                      className="max-h-[60vh] w-auto object-contain cursor-pointer active:scale-98 transition-transform"
-                      onClick={() => setFullScreenMedia(msg.mediaData || null)}
-                    />
-                  )}
-                  
-                  {msg.type === 'video' && (
-                    <div className="relative group">
-                      <video 
-                        controls 
-                        playsInline 
-                        style={{ transform: 'none' }} 
-                        className="max-h-[60vh] w-full bg-black"
-                        onError={() => alert("Secure playback failed. Media may have expired from RAM.")}
-                      >
-                        <source src={msg.mediaData} />
-                      </video>
-                    </div>
-                  )}
-                  
-                  {msg.type === 'audio' && (
-                    <div className="px-4 py-3 min-w-[240px] bg-white/5 flex flex-col gap-1">
-                      <audio controls className="w-full h-10 scale-95 invert contrast-125">
-                        <source src={msg.mediaData} />
-                      </audio>
-                    </div>
-                  )}
-                </div>
-                <span className="text-[8px] text-gray-700 font-bold mono mt-1 px-1">
-                  {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                </span>
-              </div>
-            );
-          })
+          messages.map((msg, idx) => (
+            <React.Fragment key={msg.id}>
+              {renderMessage(msg, idx)}
+              {summaryCard?.anchorId === msg.id && renderSummaryCard(summaryCard.summary)}
+            </React.Fragment>
+          ))
         )}
         
         {activeTypingList.length > 0 && (
@@ -452,6 +905,101 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
         )}
       </div>
 
+      <div className="absolute top-3 inset-x-4 z-[80] flex flex-col gap-2 pointer-events-none">
+        <div className="flex items-center justify-between gap-2">
+          <select
+            value={preferredLanguage ?? ''}
+            onChange={(e) => onLanguageChange(e.target.value || null)}
+            title="Translate incoming messages into"
+            className="pointer-events-auto glass border border-white/10 px-3 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-white bg-transparent outline-none shadow-2xl"
+          >
+            <option value="" className="bg-black text-white">Translate: Off</option>
+            {TRANSLATION_LANGUAGES.map(lang => (
+              <option key={lang.code} value={lang.code} className="bg-black text-white">{lang.label}</option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => showSearch ? closeSearch() : setShowSearch(true)}
+              title="Search this zone"
+              className={`pointer-events-auto glass border px-3 py-2 rounded-full shadow-2xl active:scale-95 transition-all ${showSearch ? 'border-white/40 text-white' : 'border-white/10 text-gray-400'}`}
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M21 21l-4.35-4.35M11 18a7 7 0 100-14 7 7 0 000 14z" /></svg>
+            </button>
+            {catchUpCount >= CATCH_UP_MIN_MESSAGES && (
+              <button
+                onClick={handleCatchUp}
+                disabled={isSummarizing}
+                className="pointer-events-auto glass border border-white/10 px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-white shadow-2xl active:scale-95 transition-all disabled:opacity-50"
+              >
+                {isSummarizing ? 'Summarizing...' : 'Catch Me Up'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {showSearch && (
+          <div className="pointer-events-auto glass border border-white/10 rounded-3xl p-4 space-y-3 shadow-2xl animate-in fade-in duration-200">
+            <div className="flex gap-2">
+              <input
+                autoFocus
+                value={searchQuery.text}
+                onChange={(e) => updateSearch({ text: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter') stepSearch(e.shiftKey ? -1 : 1); if (e.key === 'Escape') closeSearch(); }}
+                placeholder="Search messages..."
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[13px] text-white outline-none focus:border-white/30"
+              />
+              <input
+                value={searchQuery.sender}
+                onChange={(e) => updateSearch({ sender: e.target.value })}
+                placeholder="Sender"
+                className="w-28 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[13px] text-white outline-none focus:border-white/30"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              {SEARCH_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => updateSearch({ type })}
+                  className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest border transition-all ${
+                    searchQuery.type === type ? 'bg-white text-black border-white' : 'bg-white/5 text-gray-500 border-white/10'
+                  }`}
+                >
+                  {type === 'all' ? 'All' : type}
+                </button>
+              ))}
+              <span className="w-px h-4 bg-white/10 mx-1"></span>
+              {SEARCH_RANGES.map(range => (
+                <button
+                  key={range.label}
+                  onClick={() => updateSearch({ withinMs: range.ms })}
+                  className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest border transition-all ${
+                    searchQuery.withinMs === range.ms ? 'bg-white text-black border-white' : 'bg-white/5 text-gray-500 border-white/10'
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] font-bold mono uppercase tracking-widest text-gray-500">
+                {searchResults.length === 0
+                  ? 'No matches'
+                  : searchCursor < 0
+                    ? `${searchResults.length} ${searchResults.length === 1 ? 'match' : 'matches'}`
+                    : `${searchCursor + 1} of ${searchResults.length}`}
+              </span>
+              <div className="flex items-center gap-2">
+                <button onClick={() => stepSearch(-1)} disabled={searchResults.length === 0} className="px-3 py-1 rounded-full bg-white/5 text-[9px] font-black uppercase tracking-widest text-white disabled:opacity-30">Newer</button>
+                <button onClick={() => stepSearch(1)} disabled={searchResults.length === 0} className="px-3 py-1 rounded-full bg-white/5 text-[9px] font-black uppercase tracking-widest text-white disabled:opacity-30">Older</button>
+                <button onClick={closeSearch} className="px-3 py-1 text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">Close</button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* New Message Badge */}
       {showNewMessageBadge && (
         <button 
@@ -558,14 +1106,26 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
                   <canvas ref={audioCanvasRef} className="w-full h-32" />
                 )}
                 {reviewData?.type === 'image' && (
-                  <img src={reviewData.data} className="w-full h-full object-contain" />
+                  <img src={reviewData.url} className="w-full h-full object-contain" />
                 )}
                 {reviewData?.type === 'video' && (
-                  <video src={reviewData.data} autoPlay loop muted playsInline style={{ transform: 'none' }} className="w-full h-full object-cover" />
+                  <video src={reviewData.url} autoPlay loop muted playsInline style={{ transform: 'none' }} className="w-full h-full object-cover" />
                 )}
                 {reviewData?.type === 'audio' && (
-                  <div className="text-red-500 animate-pulse">
-                    <svg className="w-12 h-12" fill="currentColor" viewBox="0 0 20 20"><path d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 005.93 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" /></svg>
+                  <div className="flex flex-col items-center gap-6">
+                    <div className="text-red-500 animate-pulse">
+                      <svg className="w-12 h-12" fill="currentColor" viewBox="0 0 20 20"><path d="M7 4a3 3 0 016 0v4a3 3 0 11-6 0V4zm4 10.93A7.001 7.001 0 0017 8a1 1 0 10-2 0A5 5 0 015 8a1 1 0 00-2 0 7.001 7.001 0 005.93 6.93V17H6a1 1 0 100 2h8a1 1 0 100-2h-3v-2.07z" /></svg>
+                    </div>
+                    {getTranscriber() && (
+                      <button
+                        onClick={toggleCaptions}
+                        className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all ${
+                          captionsOn ? 'bg-white text-black border-white' : 'bg-white/5 text-gray-500 border-white/10'
+                        }`}
+                      >
+                        Captions {captionsOn ? 'On' : 'Off'}
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -580,7 +1140,7 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
                     >
                       {processingStatus ? 'BROADCASTING...' : 'Broadcast to Zone'}
                     </button>
-                    <button onClick={() => setReviewData(null)} disabled={!!processingStatus} className="px-6 py-4 bg-white/5 text-gray-400 font-black uppercase tracking-widest text-[10px] rounded-2xl hover:bg-white/10 transition-all disabled:opacity-50">Discard</button>
+                    <button onClick={discardReview} disabled={!!processingStatus} className="px-6 py-4 bg-white/5 text-gray-400 font-black uppercase tracking-widest text-[10px] rounded-2xl hover:bg-white/10 transition-all disabled:opacity-50">Discard</button>
                   </>
                 ) : (
                   <>
@@ -613,7 +1173,27 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
             </div>
           )}
 
-          {recordingMode === 'none' && !reviewData && !processingStatus && (
+          {isMuted && recordingMode === 'none' && !reviewData && !processingStatus && (
+            <div className="bg-orange-500/10 border border-orange-500/20 rounded-[2.5rem] px-6 py-5 text-center">
+              <span className="text-[10px] font-black uppercase tracking-widest text-orange-400">
+                Muted by host until {new Date(mutedUntil!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </span>
+            </div>
+          )}
+
+          {replyingTo && !isMuted && recordingMode === 'none' && !processingStatus && (
+            <div className="flex items-center gap-3 bg-white/[0.03] border border-white/5 rounded-2xl px-4 py-2">
+              <div className="flex-1 min-w-0 border-l-2 border-white/20 pl-3">
+                <span className="block text-[9px] font-black uppercase tracking-widest text-gray-500">Replying to {replyingTo.sender}</span>
+                <span className="block text-[12px] text-gray-400 truncate">{replyingTo.preview}</span>
+              </div>
+              <button onClick={() => setReplyingTo(null)} className="p-1 text-gray-600 hover:text-white transition-colors shrink-0">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          )}
+
+          {!isMuted && recordingMode === 'none' && !reviewData && !processingStatus && (
             <div className="relative bg-[#111] border border-white/5 rounded-[2.5rem] flex flex-col overflow-hidden focus-within:border-white/20 transition-all p-2 shadow-2xl">
               <textarea 
                 ref={textAreaRef}
@@ -639,19 +1219,27 @@ const ChatRoom: React.FC<ChatRoomProps> = ({ messages, currentUser, typingUsers,
               
               <div className="flex items-center justify-between px-3 pb-2 pt-1">
                 <div className="flex items-center gap-1.5">
-                  <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" onChange={handleFileUpload} />
-                  
-                  <button onClick={() => fileInputRef.current?.click()} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
-                  </button>
-
-                  <button onClick={startAudioRecording} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-14 0m14 0v1a7 7 0 01-14 0v-1m14 0a7 7 0 00-7-7 7 7 0 00-7 7m7 5V4m0 0L8 8m4-4l4 4" /></svg>
-                  </button>
-
-                  <button onClick={() => setShowCameraSelector(true)} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
-                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2-2v8a2 2 0 002 2z" /></svg>
-                  </button>
+                  {isMediaAllowed(mediaPolicy, 'image') && (
+                    <>
+                      <input type="file" ref={fileInputRef} className="hidden" accept={isMediaAllowed(mediaPolicy, 'video') ? "image/*,video/*" : "image/*"} onChange={handleFileUpload} />
+                      
+                      <button onClick={() => fileInputRef.current?.click()} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                      </button>
+                    </>
+                  )}
+
+                  {isMediaAllowed(mediaPolicy, 'audio') && (
+                    <button onClick={startAudioRecording} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-14 0m14 0v1a7 7 0 01-14 0v-1m14 0a7 7 0 00-7-7 7 7 0 00-7 7m7 5V4m0 0L8 8m4-4l4 4" /></svg>
+                    </button>
+                  )}
+
+                  {isMediaAllowed(mediaPolicy, 'video') && (
+                    <button onClick={() => setShowCameraSelector(true)} className="w-10 h-10 flex items-center justify-center text-gray-500 hover:text-white hover:bg-white/5 rounded-full transition-all active:scale-90">
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2-2v8a2 2 0 002 2z" /></svg>
+                    </button>
+                  )}
                 </div>
 
                 <button 
@@ -2,13 +2,20 @@
 import React from 'react';
 
 interface ExpiryWarningProps {
+  timeLeft: number;
+  isHost: boolean;
+  /** Minutes the host can still add, or 0 once the maximum lifetime is reached. */
+  extendMinutes: number;
+  onExtend: () => void;
   onDismiss: () => void;
   onRestart: () => void;
 }
 
-const ExpiryWarning: React.FC<ExpiryWarningProps> = ({ onDismiss, onRestart }) => {
+const ExpiryWarning: React.FC<ExpiryWarningProps> = ({ timeLeft, isHost, extendMinutes, onExtend, onDismiss, onRestart }) => {
+  const minutesLeft = Math.max(1, Math.ceil(timeLeft / 60000));
+
   return (
-    <div className="absolute top-4 left-4 right-4 z-[60] animate-slide-down">
+    <div className="animate-slide-down">
       <div className="max-w-md mx-auto glass border border-white/10 rounded-2xl p-5 shadow-2xl overflow-hidden relative">
         {/* Glow effect */}
         <div className="absolute -top-10 -right-10 w-24 h-24 bg-orange-500/20 blur-3xl rounded-full"></div>
@@ -23,16 +30,27 @@ const ExpiryWarning: React.FC<ExpiryWarningProps> = ({ onDismiss, onRestart }) =
           <div className="flex-1">
             <h3 className="text-sm font-black uppercase tracking-widest text-white mb-1">Session Expiring</h3>
             <p className="text-xs text-gray-400 leading-relaxed mb-4">
-              This secure tunnel will collapse in <span className="text-orange-400 font-bold">5 minutes</span>. All messages will be permanently wiped.
+              This secure tunnel will collapse in <span className="text-orange-400 font-bold">{minutesLeft} {minutesLeft === 1 ? 'minute' : 'minutes'}</span>. All messages will be permanently wiped.
+              {!isHost && ' Only the host can extend it.'}
             </p>
             
-            <div className="flex gap-3">
-              <button 
-                onClick={onRestart}
-                className="px-4 py-2 bg-white text-black text-[10px] font-black uppercase tracking-widest rounded-lg hover:bg-gray-200 transition-all active:scale-95"
-              >
-                Start New
-              </button>
+            <div className="flex flex-wrap gap-3">
+              {isHost && extendMinutes > 0 && (
+                <button 
+                  onClick={onExtend}
+                  className="px-4 py-2 bg-orange-500 text-black text-[10px] font-black uppercase tracking-widest rounded-lg hover:bg-orange-400 transition-all active:scale-95"
+                >
+                  +{extendMinutes} Min
+                </button>
+              )}
+              {isHost && (
+                <button 
+                  onClick={onRestart}
+                  className="px-4 py-2 bg-white text-black text-[10px] font-black uppercase tracking-widest rounded-lg hover:bg-gray-200 transition-all active:scale-95"
+                >
+                  Start New
+                </button>
+              )}
               <button 
                 onClick={onDismiss}
                 className="px-4 py-2 bg-white/5 border border-white/10 text-white text-[10px] font-black uppercase tracking-widest rounded-lg hover:bg-white/10 transition-all"
@@ -1,15 +1,18 @@
 
 import React, { useEffect, useState } from 'react';
+import { BrokerHealth, ConnectionStatus } from '../types';
+import { getBrokerLabel } from '../services/brokerConfig';
 
 interface FooterProps {
-  status: 'connected' | 'reconnecting' | 'offline';
+  status: ConnectionStatus;
   timeLeft: number;
   totalTime: number;
   distance: number | null;
   fingerprint: string;
+  health: BrokerHealth | null;
 }
 
-const Footer: React.FC<FooterProps> = ({ status, timeLeft, totalTime, distance, fingerprint }) => {
+const Footer: React.FC<FooterProps> = ({ status, timeLeft, totalTime, distance, fingerprint, health }) => {
   const [hash, setHash] = useState('');
 
   // Generate a rotating "cryptographic handshake" hash for aesthetics
@@ -25,6 +28,18 @@ const Footer: React.FC<FooterProps> = ({ status, timeLeft, totalTime, distance,
     return () => clearInterval(interval);
   }, []);
 
+  const getHealthLabel = () => {
+    if (!health) return status === 'reconnecting' ? 'FAILOVER...' : 'NO LINK';
+    const host = getBrokerLabel(health.url);
+    return health.latencyMs === null ? `${host} NO_ECHO` : `${host} ${health.latencyMs}MS`;
+  };
+
+  const getHealthColor = () => {
+    if (!health || health.latencyMs === null) return 'text-red-500/60';
+    if (health.latencyMs > 1000) return 'text-orange-500/60';
+    return 'text-green-500/60';
+  };
+
   const progress = (timeLeft / totalTime) * 100;
   const getProgressColor = () => {
     if (progress < 10) return 'bg-red-500';
@@ -46,6 +61,12 @@ const Footer: React.FC<FooterProps> = ({ status, timeLeft, totalTime, distance,
             {status === 'connected' ? `SECURE_${hash}` : 'WAITING...'}
           </span>
         </div>
+        <div className="flex items-center gap-1.5 border-l border-white/10 pl-2 sm:pl-4 overflow-hidden">
+          <span className="hidden sm:inline text-[8px] font-black text-gray-700 mono uppercase tracking-[0.2em]">BROKER:</span>
+          <span className={`text-[7px] sm:text-[8px] font-bold mono uppercase truncate max-w-[90px] sm:max-w-[160px] ${getHealthColor()}`}>
+            {getHealthLabel()}
+          </span>
+        </div>
       </div>
 
       {/* Middle: Session Decay (Entropy) */}
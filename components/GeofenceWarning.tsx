@@ -0,0 +1,44 @@
+
+import React, { useEffect, useState } from 'react';
+
+interface GeofenceWarningProps {
+  deadline: number;
+  distance: number | null;
+  radiusKm: number;
+}
+
+const GeofenceWarning: React.FC<GeofenceWarningProps> = ({ deadline, distance, radiusKm }) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+
+  useEffect(() => {
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return (
+    <div className="animate-slide-down">
+      <div className="max-w-md mx-auto glass border border-red-500/30 rounded-2xl p-5 shadow-2xl overflow-hidden relative">
+        {/* Glow effect */}
+        <div className="absolute -top-10 -right-10 w-24 h-24 bg-red-500/20 blur-3xl rounded-full"></div>
+
+        <div className="flex items-start gap-4">
+          <div className="shrink-0 w-10 h-10 bg-red-500/10 border border-red-500/20 rounded-full flex items-center justify-center">
+            <span className="mono text-xs font-black text-red-500">{secondsLeft}</span>
+          </div>
+
+          <div className="flex-1">
+            <h3 className="text-sm font-black uppercase tracking-widest text-white mb-1">Outside Zone Radius</h3>
+            <p className="text-xs text-gray-400 leading-relaxed">
+              You are {distance !== null ? <span className="text-white font-bold">~{distance.toFixed(1)}km</span> : 'too far'} from the zone center, beyond its {radiusKm}km radius.
+              Return within <span className="text-red-400 font-bold">{secondsLeft}s</span> or the tunnel will be severed.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeofenceWarning;
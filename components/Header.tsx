@@ -9,11 +9,15 @@ interface HeaderProps {
   isHost: boolean;
   password?: string;
   unreadCount: number;
+  memberCount: number;
+  onOpenRoster: () => void;
   onExitRequest: () => void;
   onShare: () => void;
+  onCloseZone?: () => void;
+  onOpenModeration?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, password, unreadCount, onExitRequest, onShare }) => {
+const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, password, unreadCount, memberCount, onOpenRoster, onExitRequest, onShare, onCloseZone, onOpenModeration }) => {
   const [showPwd, setShowPwd] = useState(false);
 
   const formatTime = (ms: number) => {
@@ -30,8 +34,6 @@ const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, passwor
     }
   };
 
-  const memberCount = zone?.userCount || 1;
-
   return (
     <header className="h-16 shrink-0 border-b border-white/5 flex items-center justify-between px-4 sm:px-5 glass z-50 overflow-hidden">
       {/* Left Section: Brand, Room Name & Status */}
@@ -55,12 +57,12 @@ const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, passwor
             
             {/* Mobile-only Member Badge: integrated into left group */}
             {zone && (
-              <div className="sm:hidden flex items-center gap-1 bg-white/5 border border-white/10 px-1.5 py-0.5 rounded-full shrink-0">
+              <button onClick={onOpenRoster} className="sm:hidden flex items-center gap-1 bg-white/5 border border-white/10 px-1.5 py-0.5 rounded-full shrink-0">
                 <div className="w-1 h-1 bg-green-500 rounded-full animate-pulse"></div>
                 <span className="text-[8px] font-black text-white/60 mono leading-none">
                   {memberCount}
                 </span>
-              </div>
+              </button>
             )}
           </div>
         </div>
@@ -69,12 +71,12 @@ const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, passwor
       {/* Desktop-only Center Badge: Absolutely centered for aesthetics */}
       {zone && (
         <div className="hidden sm:flex absolute left-1/2 -translate-x-1/2 items-center gap-2">
-          <div className="bg-white/5 border border-white/10 px-3 py-1 rounded-full flex items-center gap-2 shadow-inner">
+          <button onClick={onOpenRoster} className="bg-white/5 border border-white/10 px-3 py-1 rounded-full flex items-center gap-2 shadow-inner hover:bg-white/10 transition-colors">
             <div className="w-1 h-1 bg-green-500 rounded-full animate-pulse"></div>
             <span className="text-[9px] font-black uppercase tracking-[0.2em] text-white/60 mono">
               {memberCount} {memberCount === 1 ? 'MEMBER' : 'ACTIVE'}
             </span>
-          </div>
+          </button>
         </div>
       )}
 
@@ -112,6 +114,28 @@ const Header: React.FC<HeaderProps> = ({ zone, timeLeft, status, isHost, passwor
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6a3 3 0 100-2.684m0 2.684l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
               </svg>
             </button>
+            {isHost && onOpenModeration && (
+              <button
+                onClick={onOpenModeration}
+                className="p-1.5 sm:p-2 text-white/40 hover:text-white transition-colors"
+                title="Moderate Members"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+              </button>
+            )}
+            {isHost && onCloseZone && (
+              <button
+                onClick={onCloseZone}
+                className="p-1.5 sm:p-2 text-red-500/50 hover:text-red-500 transition-colors"
+                title="Close Zone For Everyone"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M18.364 5.636a9 9 0 11-12.728 0M12 3v9" />
+                </svg>
+              </button>
+            )}
             <button onClick={onExitRequest} className="p-1.5 sm:p-2 text-gray-500 hover:text-white transition-colors">
               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M17 16l4-4m0 0l-4-4m4 4H7" /></svg>
             </button>
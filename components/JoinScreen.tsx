@@ -1,20 +1,34 @@
 
 import React, { useEffect, useState } from 'react';
 import { getPrivacyAdvice } from '../services/geminiService';
-import { Zone, RoomType } from '../types';
-import { calculateDistance, getDistanceLabel, getCurrentPosition } from '../utils/location';
+import { Zone, RoomType, MediaPolicy, ZoneSettings } from '../types';
+import { MAX_HANDLE_LENGTH, RADIUS_KM, SESSION_DURATION_MS, ZONE_RADIUS_OPTIONS_KM, ZONE_LIFETIME_OPTIONS_MS, ZONE_MEMBER_CAP_OPTIONS } from '../constants';
+import { distanceToGeocell, getDistanceLabel, getCurrentPosition, getRadiusLabel } from '../utils/location';
+import { filterAndSortZones, ZoneFilter, ZoneSort } from '../utils/discovery';
+import ZoneRadar from './ZoneRadar';
+
+const MEDIA_POLICY_LABELS: Record<MediaPolicy, string> = { text: 'Text Only', images: 'Images', all: 'All Media' };
+
+const SORT_LABELS: Record<ZoneSort, string> = { distance: 'Nearest', members: 'Busiest', timeLeft: 'Time Left', newest: 'Newest' };
+const DEFAULT_FILTER: ZoneFilter = { query: '', type: 'all', hasRoom: false };
+
+const formatLifetime = (ms: number) => ms < 3600000 ? `${ms / 60000}M` : `${ms / 3600000}H`;
 
 interface JoinScreenProps {
   onJoin: (room: Zone, username: string, password?: string) => void;
-  onCreate: (name: string, type: RoomType, username: string, password?: string) => void;
+  onCreate: (name: string, type: RoomType, username: string, password: string | undefined, settings: ZoneSettings) => void;
   rooms: Zone[];
   deepLinkedZone?: Zone | null;
   isLoading?: boolean;
+  onOpenSettings?: () => void;
 }
 
-const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLinkedZone, isLoading = false }) => {
+const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLinkedZone, isLoading = false, onOpenSettings }) => {
   const [advice, setAdvice] = useState<string>("Initializing secure discovery...");
   const [view, setView] = useState<'browse' | 'create'>('browse');
+  const [browseMode, setBrowseMode] = useState<'list' | 'radar'>('list');
+  const [zoneFilter, setZoneFilter] = useState<ZoneFilter>(DEFAULT_FILTER);
+  const [zoneSort, setZoneSort] = useState<ZoneSort>('distance');
   const [userCoords, setUserCoords] = useState<{lat: number, lng: number} | null>(null);
   
   // Create Flow state
@@ -22,6 +36,9 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
   const [newName, setNewName] = useState('');
   const [newType, setNewType] = useState<RoomType>('public');
   const [newPass, setNewPass] = useState('');
+  const [newSettings, setNewSettings] = useState<ZoneSettings>({
+    radiusKm: RADIUS_KM, lifetimeMs: SESSION_DURATION_MS, memberCap: null, mediaPolicy: 'all'
+  });
 
   // Join Flow state
   const [selectedRoom, setSelectedRoom] = useState<Zone | null>(null);
@@ -47,9 +64,14 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
     if (!newUsername.trim()) return alert("Handle required for identification.");
     if (!newName.trim()) return alert("Zone name required.");
     if (newType === 'private' && !newPass) return alert("Access Key required for private zones.");
-    onCreate(newName, newType, newUsername, newPass);
+    onCreate(newName, newType, newUsername, newPass, newSettings);
   };
 
+  const visibleRooms = filterAndSortZones(rooms, zoneFilter, zoneSort, userCoords);
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-[9px] font-black uppercase mono transition-all ${active ? 'bg-white text-black shadow-lg' : 'bg-white/5 text-gray-500'} disabled:opacity-50`;
+
   const handleJoinFinal = () => {
     if (isLoading || !selectedRoom) return;
     if (!joinUsername.trim()) return alert("Please set your handle first.");
@@ -65,10 +87,10 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
           <h2 className="text-4xl font-black tracking-tighter mb-4 text-white uppercase">Locus Chat</h2>
           <div className="space-y-3 px-4">
             <p className="text-gray-400 text-xs font-medium leading-relaxed">
-              Connect anonymously with others within a <span className="text-white">10km radius</span>.
+              Connect anonymously with others <span className="text-white">within each zone's radius</span>.
             </p>
             <p className="text-gray-500 text-[10px] mono uppercase tracking-widest leading-relaxed">
-              2 Hour Session Limit • Zero Data Retention • Peer Discovery • End-to-End Tunneling
+              Host-Set Lifetime • Zero Data Retention • Peer Discovery • End-to-End Tunneling
             </p>
           </div>
         </div>
@@ -93,7 +115,44 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
 
         {view === 'browse' ? (
           <div className="space-y-4">
-            {rooms.length === 0 ? (
+            {rooms.length > 0 && (
+              <div className="space-y-2">
+                <input
+                  value={zoneFilter.query}
+                  onChange={e => setZoneFilter(f => ({ ...f, query: e.target.value }))}
+                  placeholder="SEARCH ZONES"
+                  className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-3 focus:outline-none focus:border-white/30 text-white text-[11px] font-bold uppercase tracking-widest"
+                />
+                <div className="flex gap-1">
+                  {(Object.keys(SORT_LABELS) as ZoneSort[]).map(sort => (
+                    <button key={sort} onClick={() => setZoneSort(sort)} className={optionClass(zoneSort === sort)}>{SORT_LABELS[sort]}</button>
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  {(['all', 'public', 'private'] as const).map(type => (
+                    <button key={type} onClick={() => setZoneFilter(f => ({ ...f, type }))} className={optionClass(zoneFilter.type === type)}>{type}</button>
+                  ))}
+                  <button onClick={() => setZoneFilter(f => ({ ...f, hasRoom: !f.hasRoom }))} className={optionClass(zoneFilter.hasRoom)}>Has Room</button>
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end gap-1">
+              {(['list', 'radar'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setBrowseMode(mode)}
+                  className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${browseMode === mode ? 'bg-white/10 text-white' : 'text-gray-600 hover:text-white'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            {browseMode === 'radar' ? (
+              <ZoneRadar
+                rooms={visibleRooms} userCoords={userCoords} disabled={isLoading}
+                onSelect={setSelectedRoom} tileTemplate={import.meta.env.VITE_MAP_TILE_URL}
+              />
+            ) : rooms.length === 0 ? (
               <div className="py-20 text-center border border-dashed border-white/10 rounded-[2.5rem] bg-white/[0.02]">
                 <div className="mb-4 text-gray-700">
                   <svg className="w-12 h-12 mx-auto opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -101,11 +160,18 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
                   </svg>
                 </div>
                 <p className="text-gray-600 text-[10px] font-black uppercase tracking-widest">Scanning for active signals...</p>
-                <p className="text-gray-800 text-[9px] mono mt-2">Zero zones found in 10km radius.</p>
+                <p className="text-gray-800 text-[9px] mono mt-2">Zero zones in range.</p>
+              </div>
+            ) : visibleRooms.length === 0 ? (
+              <div className="py-12 text-center border border-dashed border-white/10 rounded-[2.5rem] bg-white/[0.02]">
+                <p className="text-gray-600 text-[10px] font-black uppercase tracking-widest">No zones match</p>
+                <button onClick={() => setZoneFilter(DEFAULT_FILTER)} className="mt-3 text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-colors">Clear Filters</button>
               </div>
             ) : (
-              rooms.map(room => {
-                const dist = userCoords ? calculateDistance(userCoords.lat, userCoords.lng, room.center.lat, room.center.lng) : 0;
+              visibleRooms.map(room => {
+                // Zones only publish a coarse geocell, so this is the distance to the cell center.
+                const dist = userCoords && room.geocell ? distanceToGeocell(userCoords.lat, userCoords.lng, room.geocell) : 0;
+                const isFull = room.memberCap !== null && room.userCount >= room.memberCap;
                 return (
                   <button 
                     key={room.id}
@@ -121,7 +187,9 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
                         )}
                       </div>
                       <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">
-                        {getDistanceLabel(dist)} • {room.userCount || 1} {room.userCount === 1 ? 'MEMBER' : 'MEMBERS'}
+                        {getDistanceLabel(dist)} • {getRadiusLabel(room.radiusKm)} • {room.userCount || 1}{room.memberCap !== null ? `/${room.memberCap}` : ''} {room.userCount === 1 ? 'MEMBER' : 'MEMBERS'}
+                        {isFull && <span className="text-red-500"> • FULL</span>}
+                        {room.mediaPolicy !== 'all' && ` • ${MEDIA_POLICY_LABELS[room.mediaPolicy]}`}
                       </span>
                     </div>
                     <div className="text-[9px] font-bold text-white/20 uppercase tracking-widest mono">
@@ -139,6 +207,7 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
               <input 
                 value={newUsername}
                 onChange={e => setNewUsername(e.target.value)}
+                maxLength={MAX_HANDLE_LENGTH}
                 disabled={isLoading}
                 placeholder="E.G. GHOST_SIGNAL"
                 className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-white/30 text-white font-bold uppercase disabled:opacity-50"
@@ -174,6 +243,43 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
                 />
               </div>
             )}
+            <div>
+              <label className="text-[10px] font-black uppercase tracking-widest text-gray-500 mb-2 block">Zone Parameters</label>
+              <div className="space-y-3 bg-white/[0.02] border border-white/5 rounded-2xl p-4">
+                <div>
+                  <span className="text-[8px] font-black uppercase tracking-[0.3em] text-gray-600 mb-1.5 block">Radius</span>
+                  <div className="flex gap-1">
+                    {ZONE_RADIUS_OPTIONS_KM.map(km => (
+                      <button key={km} onClick={() => setNewSettings(s => ({ ...s, radiusKm: km }))} disabled={isLoading} className={optionClass(newSettings.radiusKm === km)}>{getRadiusLabel(km)}</button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-[8px] font-black uppercase tracking-[0.3em] text-gray-600 mb-1.5 block">Lifetime</span>
+                  <div className="flex gap-1">
+                    {ZONE_LIFETIME_OPTIONS_MS.map(ms => (
+                      <button key={ms} onClick={() => setNewSettings(s => ({ ...s, lifetimeMs: ms }))} disabled={isLoading} className={optionClass(newSettings.lifetimeMs === ms)}>{formatLifetime(ms)}</button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-[8px] font-black uppercase tracking-[0.3em] text-gray-600 mb-1.5 block">Member Cap</span>
+                  <div className="flex gap-1">
+                    {ZONE_MEMBER_CAP_OPTIONS.map(cap => (
+                      <button key={cap ?? 'none'} onClick={() => setNewSettings(s => ({ ...s, memberCap: cap }))} disabled={isLoading} className={optionClass(newSettings.memberCap === cap)}>{cap ?? 'None'}</button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <span className="text-[8px] font-black uppercase tracking-[0.3em] text-gray-600 mb-1.5 block">Media</span>
+                  <div className="flex gap-1">
+                    {(Object.keys(MEDIA_POLICY_LABELS) as MediaPolicy[]).map(policy => (
+                      <button key={policy} onClick={() => setNewSettings(s => ({ ...s, mediaPolicy: policy }))} disabled={isLoading} className={optionClass(newSettings.mediaPolicy === policy)}>{MEDIA_POLICY_LABELS[policy]}</button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
             <button 
               onClick={handleCreate} 
               disabled={isLoading}
@@ -205,6 +311,7 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
                     autoFocus
                     value={joinUsername}
                     onChange={e => setJoinUsername(e.target.value)}
+                    maxLength={MAX_HANDLE_LENGTH}
                     disabled={isLoading}
                     placeholder="ENTER HANDLE"
                     className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 focus:outline-none focus:border-white/30 text-center text-white font-bold uppercase text-sm disabled:opacity-50"
@@ -250,6 +357,15 @@ const JoinScreen: React.FC<JoinScreenProps> = ({ onJoin, onCreate, rooms, deepLi
           <p className="text-[10px] text-gray-700 mono italic max-w-xs mx-auto leading-relaxed opacity-60">
             &ldquo;{advice}&rdquo;
           </p>
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              disabled={isLoading}
+              className="mt-6 text-[9px] font-black uppercase tracking-widest text-gray-700 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Advanced Network Settings
+            </button>
+          )}
         </div>
       </div>
     </div>
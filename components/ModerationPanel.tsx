@@ -0,0 +1,93 @@
+
+import React, { useEffect, useState } from 'react';
+import { ModerationAction, ModerationState } from '../types';
+
+const MUTE_OPTIONS_MIN = [5, 15, 60];
+
+interface ModerationPanelProps {
+  members: string[];
+  handles: Record<string, string>;
+  moderation: ModerationState;
+  selfId: string;
+  onAction: (action: ModerationAction, target: string, muteMinutes?: number) => void;
+  onClose: () => void;
+}
+
+const ModerationPanel: React.FC<ModerationPanelProps> = ({ members, handles, moderation, selfId, onAction, onClose }) => {
+  const [muteMinutes, setMuteMinutes] = useState(MUTE_OPTIONS_MIN[0]);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  // Banned members drop out of presence, so keep them listed to show why they are gone.
+  const listed = Array.from(new Set([...members, ...moderation.banned])).filter(id => id !== selfId);
+
+  const formatRemaining = (until: number) => {
+    const secs = Math.max(0, Math.ceil((until - now) / 1000));
+    return `${Math.floor(secs / 60)}:${(secs % 60).toString().padStart(2, '0')}`;
+  };
+
+  const actionClass = "px-2.5 py-1.5 rounded-lg text-[8px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black/90 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-200">
+      <div className="max-w-sm w-full glass border border-white/10 p-8 rounded-[2.5rem] shadow-2xl animate-in zoom-in duration-300 max-h-full overflow-y-auto no-scrollbar">
+        <h3 className="text-sm font-black uppercase tracking-[0.3em] text-white mb-1 text-center">Moderation</h3>
+        <p className="text-[9px] font-bold text-gray-600 uppercase tracking-widest text-center mb-6">Enforced by every member • Zone lifetime</p>
+
+        <div className="flex items-center justify-between bg-white/5 border border-white/10 rounded-xl px-4 py-3 mb-4">
+          <span className="text-[9px] font-black uppercase tracking-widest text-gray-400">Mute Duration</span>
+          <div className="flex gap-1">
+            {MUTE_OPTIONS_MIN.map(min => (
+              <button
+                key={min}
+                onClick={() => setMuteMinutes(min)}
+                className={`px-2 py-1 rounded-md text-[9px] font-black mono ${muteMinutes === min ? 'bg-white text-black' : 'text-gray-500'}`}
+              >
+                {min}M
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {listed.length === 0 ? (
+            <p className="text-[9px] font-black uppercase tracking-widest text-gray-700 text-center py-6">No other members detected</p>
+          ) : listed.map(id => {
+            const banned = moderation.banned.includes(id);
+            const mutedUntil = moderation.mutedUntil[id];
+            const muted = !!mutedUntil && mutedUntil > now;
+            return (
+              <div key={id} className="bg-white/[0.03] border border-white/5 rounded-xl px-4 py-3">
+                <div className="flex items-baseline justify-between mb-2 gap-2">
+                  <span className="text-[11px] font-black uppercase tracking-widest text-white truncate">{handles[id] || 'UNKNOWN'}</span>
+                  <span className="text-[8px] mono text-gray-600 shrink-0">{id}</span>
+                </div>
+                {banned ? (
+                  <span className="text-[8px] font-black uppercase tracking-widest text-red-500">Banned</span>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => onAction('kick', id)} className={`${actionClass} bg-white/5 text-gray-300 hover:bg-white/10`}>Kick</button>
+                    <button onClick={() => onAction('mute', id, muteMinutes)} className={`${actionClass} bg-orange-500/10 text-orange-400 hover:bg-orange-500/20`}>
+                      {muted ? `Muted ${formatRemaining(mutedUntil)}` : 'Mute'}
+                    </button>
+                    <button onClick={() => onAction('ban', id)} className={`${actionClass} bg-red-500/10 text-red-500 hover:bg-red-500/20`}>Ban</button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button onClick={onClose} className="w-full py-4 bg-white text-black font-black uppercase tracking-widest text-[10px] rounded-xl active:scale-95 shadow-xl transition-all">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationPanel;
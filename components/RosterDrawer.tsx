@@ -0,0 +1,64 @@
+
+import React, { useEffect, useState } from 'react';
+import { RosterEntry } from '../types';
+
+interface RosterDrawerProps {
+  roster: Record<string, RosterEntry>;
+  selfId: string;
+  hostId: string;
+  onClose: () => void;
+}
+
+const RosterDrawer: React.FC<RosterDrawerProps> = ({ roster, selfId, hostId, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, []);
+
+  const members = Object.values(roster).sort((a, b) => a.joinedAt - b.joinedAt);
+
+  const formatLastSeen = (lastSeen: number) => {
+    const secs = Math.floor((now - lastSeen) / 1000);
+    if (secs < 15) return 'NOW';
+    if (secs < 60) return `${secs}S AGO`;
+    return `${Math.floor(secs / 60)}M AGO`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black/60 backdrop-blur-sm flex justify-end animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-xs h-full glass border-l border-white/10 flex flex-col animate-in slide-in-from-right duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="h-16 shrink-0 flex items-center justify-between px-6 border-b border-white/5">
+          <div className="flex flex-col">
+            <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-white">In This Zone</h3>
+            <span className="text-[8px] font-bold uppercase tracking-widest text-gray-600 mono">{members.length} {members.length === 1 ? 'MEMBER' : 'MEMBERS'}</span>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-500 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-4 py-4 space-y-2">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center gap-3 bg-white/[0.03] border border-white/5 rounded-xl px-4 py-3">
+              <div className="flex flex-col min-w-0 flex-1">
+                <span className={`text-[11px] font-black uppercase tracking-widest truncate ${member.color}`}>{member.username}</span>
+                <div className="flex items-center gap-1.5">
+                  {member.id === selfId && <span className="text-[7px] font-black uppercase tracking-widest text-white/60">YOU</span>}
+                  {member.id === hostId && <span className="text-[7px] font-black uppercase tracking-widest text-green-500">HOST</span>}
+                </div>
+              </div>
+              <span className="text-[8px] font-bold mono text-gray-600 shrink-0">{formatLastSeen(member.lastSeen)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterDrawer;
@@ -0,0 +1,119 @@
+
+import React from 'react';
+import { Zone } from '../types';
+import { calculateDistance, getFuzzedGeocellPosition, getRadiusLabel, projectToLocalKm } from '../utils/location';
+
+/** SVG user units from the center to the edge of the radar. */
+const VIEW_RADIUS = 100;
+const MIN_RANGE_KM = 0.5;
+const MAX_TILES = 25;
+
+interface ZoneRadarProps {
+  rooms: Zone[];
+  userCoords: { lat: number; lng: number } | null;
+  onSelect: (room: Zone) => void;
+  /**
+   * Optional `{z}/{x}/{y}` tile URL template drawn under the radar. Off by default: fetching
+   * tiles tells the tile server roughly where the user is.
+   */
+  tileTemplate?: string;
+  disabled?: boolean;
+}
+
+const tileToLng = (x: number, z: number) => x / 2 ** z * 360 - 180;
+const tileToLat = (y: number, z: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * y / 2 ** z))) * 180 / Math.PI;
+const lngToTile = (lng: number, z: number) => Math.floor((lng + 180) / 360 * 2 ** z);
+const latToTile = (lat: number, z: number) => {
+  const rad = lat * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * 2 ** z);
+};
+
+/**
+ * Local radar of nearby zones: the user sits in the middle, each zone is drawn at a fuzzed point
+ * inside its geocell with its radius circle. Everything is computed on-device.
+ */
+const ZoneRadar: React.FC<ZoneRadarProps> = ({ rooms, userCoords, onSelect, tileTemplate, disabled = false }) => {
+  if (!userCoords) {
+    return (
+      <div className="py-20 text-center border border-dashed border-white/10 rounded-[2.5rem] bg-white/[0.02]">
+        <p className="text-gray-600 text-[10px] font-black uppercase tracking-widest">Location lock required for radar</p>
+      </div>
+    );
+  }
+
+  const plotted = rooms.map(room => {
+    const pos = getFuzzedGeocellPosition(room.geocell, room.id);
+    return { room, ...projectToLocalKm(userCoords.lat, userCoords.lng, pos.lat, pos.lng), dist: calculateDistance(userCoords.lat, userCoords.lng, pos.lat, pos.lng) };
+  });
+  const rangeKm = Math.max(MIN_RANGE_KM, ...plotted.map(p => p.dist + p.room.radiusKm)) * 1.1;
+  const scale = VIEW_RADIUS / rangeKm;
+
+  const tiles: { key: string; href: string; x: number; y: number; w: number; h: number }[] = [];
+  if (tileTemplate) {
+    const latSpan = rangeKm / 110.57;
+    const lngSpan = rangeKm / (111.32 * Math.cos(userCoords.lat * Math.PI / 180));
+    let z = Math.max(1, Math.min(18, Math.round(Math.log2(360 / (lngSpan * 2))) + 1));
+    // Zoom out until the view needs only a handful of tiles.
+    while (z > 1 && (lngToTile(userCoords.lng + lngSpan, z) - lngToTile(userCoords.lng - lngSpan, z) + 1) ** 2 > MAX_TILES) z--;
+    for (let tx = lngToTile(userCoords.lng - lngSpan, z); tx <= lngToTile(userCoords.lng + lngSpan, z); tx++) {
+      for (let ty = latToTile(userCoords.lat + latSpan, z); ty <= latToTile(userCoords.lat - latSpan, z); ty++) {
+        const nw = projectToLocalKm(userCoords.lat, userCoords.lng, tileToLat(ty, z), tileToLng(tx, z));
+        const se = projectToLocalKm(userCoords.lat, userCoords.lng, tileToLat(ty + 1, z), tileToLng(tx + 1, z));
+        tiles.push({
+          key: `${z}/${tx}/${ty}`,
+          href: tileTemplate.replace('{z}', String(z)).replace('{x}', String(tx)).replace('{y}', String(ty)),
+          x: nw.x * scale, y: -nw.y * scale, w: (se.x - nw.x) * scale, h: (nw.y - se.y) * scale,
+        });
+      }
+    }
+  }
+
+  return (
+    <div className="glass border border-white/10 rounded-[2.5rem] p-4">
+      <svg viewBox={`${-VIEW_RADIUS} ${-VIEW_RADIUS} ${VIEW_RADIUS * 2} ${VIEW_RADIUS * 2}`} className="w-full aspect-square select-none">
+        <defs>
+          <clipPath id="radar-clip"><circle r={VIEW_RADIUS} /></clipPath>
+        </defs>
+        <g clipPath="url(#radar-clip)">
+          <circle r={VIEW_RADIUS} fill="#0a0a0a" />
+          {tiles.map(t => (
+            <image key={t.key} href={t.href} x={t.x} y={t.y} width={t.w} height={t.h} preserveAspectRatio="none" opacity={0.35} />
+          ))}
+          {[1 / 3, 2 / 3, 1].map(f => (
+            <circle key={f} r={VIEW_RADIUS * f} fill="none" stroke="rgba(255,255,255,0.08)" strokeWidth={0.5} />
+          ))}
+          <line x1={-VIEW_RADIUS} x2={VIEW_RADIUS} y1={0} y2={0} stroke="rgba(255,255,255,0.05)" strokeWidth={0.5} />
+          <line y1={-VIEW_RADIUS} y2={VIEW_RADIUS} x1={0} x2={0} stroke="rgba(255,255,255,0.05)" strokeWidth={0.5} />
+
+          {plotted.map(({ room, x, y }) => {
+            const color = room.type === 'private' ? '#ef4444' : '#ffffff';
+            return (
+              <g
+                key={room.id}
+                onClick={() => !disabled && onSelect(room)}
+                className={disabled ? 'opacity-50' : 'cursor-pointer'}
+              >
+                <circle cx={x * scale} cy={-y * scale} r={room.radiusKm * scale} fill={color} fillOpacity={0.05} stroke={color} strokeOpacity={0.3} strokeWidth={0.5} />
+                <circle cx={x * scale} cy={-y * scale} r={2.5} fill={color} />
+                <text x={x * scale} y={-y * scale - 5} textAnchor="middle" fill={color} fontSize={5} fontWeight={900} className="uppercase">
+                  {room.name.length > 14 ? `${room.name.slice(0, 13)}…` : room.name}
+                </text>
+              </g>
+            );
+          })}
+
+          <circle r={3} fill="#22c55e" className="animate-pulse" />
+          <circle r={6} fill="none" stroke="#22c55e" strokeOpacity={0.4} strokeWidth={0.5} />
+        </g>
+        <text x={VIEW_RADIUS * 0.7} y={VIEW_RADIUS - 4} textAnchor="middle" fill="rgba(255,255,255,0.25)" fontSize={5} fontWeight={700} className="mono">
+          {getRadiusLabel(Number(rangeKm.toFixed(rangeKm < 1 ? 2 : 1)))}
+        </text>
+      </svg>
+      <p className="text-[8px] font-bold uppercase tracking-widest text-gray-600 text-center mono mt-2">
+        Positions fuzzed to each zone's geocell • Tap a zone to join
+      </p>
+    </div>
+  );
+};
+
+export default ZoneRadar;
@@ -1,14 +1,89 @@
 
 export const RADIUS_KM = 10.0;
 export const SESSION_DURATION_MS = 2 * 60 * 60 * 1000; // 2 hours
+export const EXPIRY_WARNING_MS = 5 * 60 * 1000; // Warning shown this long before a zone expires
+export const SESSION_EXTENSION_MS = 30 * 60 * 1000; // Added per host extension
+export const MAX_SESSION_LIFETIME_MS = 24 * 60 * 60 * 1000; // Extensions never push a zone past this age
 export const LOCATION_CHECK_INTERVAL_MS = 15000; 
+export const GEOFENCE_GRACE_MS = 60000; // Time allowed outside the radius before auto-eject
 export const DISCOVERY_PULSE_INTERVAL_MS = 15000; // Heartbeat for room list - now 15s
-export const MESSAGE_THROTTLE_MS = 1000; 
+export const MESSAGE_THROTTLE_MS = 1000; // Sustained rate of one message per second per member, sender and receiver side
 export const MAX_VIDEO_DURATION_S = 60;
-export const MAX_MEDIA_SIZE_MB = 1.0; 
+export const MAX_MEDIA_SIZE_MB = 20; // Default cap per attachment; VITE_MAX_MEDIA_SIZE_MB overrides it
+export const MEDIA_CHUNK_SIZE_BYTES = 64 * 1024;
+export const MEDIA_CHUNK_TIMEOUT_MS = 4000; // Silence on an incomplete transfer before missing chunks are re-requested
+export const MEDIA_MAX_RETRIES = 5;
+export const MAX_TRANSCRIPT_LENGTH = 2000; // Characters of a voice note caption carried on the message
+export const MAX_HANDLE_LENGTH = 24; // Presence events with longer handles are dropped
+export const HISTORY_PAGE_SIZE = 50; // Messages per history_res
+export const HISTORY_WINDOW_SIZE = 200; // Only the newest messages are ever synced to newcomers
 
-export const DISCOVERY_TOPIC = 'locuschat/v2/discovery';
-export const DISCOVERY_REQ_TOPIC = 'locuschat/v2/discovery/req';
+// Per-sender token buckets. Senders pace themselves to these limits; receivers drop anything beyond them.
+export const RATE_LIMITS = {
+  message: { burst: 5, refillMs: MESSAGE_THROTTLE_MS },
+  typing: { burst: 2, refillMs: 1000 },
+  reaction: { burst: 10, refillMs: 250 },
+  presence: { burst: 3, refillMs: 2000 },
+  receipt: { burst: 10, refillMs: 500 },
+  media_req: { burst: 4, refillMs: 2000 },
+  // A newcomer pulls the whole history window in a quick run of page requests.
+  history_req: { burst: Math.ceil(HISTORY_WINDOW_SIZE / HISTORY_PAGE_SIZE) + 1, refillMs: 10000 },
+};
+// Requests are not signed, so fresh sender ids get past per-sender buckets. These cap how many
+// history pages and chunk resends this client hands out in total, whoever asks.
+export const HISTORY_ANSWER_LIMIT = { burst: 20, refillMs: 1000 };
+export const MEDIA_RESEND_LIMIT = { burst: 4, refillMs: 2000 };
+// Join notices across all members, so a burst of new identities cannot bury the conversation.
+export const JOIN_NOTICE_LIMIT = { burst: 5, refillMs: 5000 };
+export const RATE_LIMIT_MEDIA_COST = 3; // Tokens a media message takes from the message bucket
+export const FLOOD_STRIKE_LIMIT = 8; // Dropped messages within the window that trigger a local auto-mute
+export const FLOOD_STRIKE_WINDOW_MS = 30000;
+export const FLOOD_MUTE_MS = 2 * 60 * 1000;
+export const FLOOD_NOTICE_INTERVAL_MS = 30000; // At most one "sending too fast" notice per sender in this span
+
+// Local moderation rules, applied on-device to outgoing and incoming messages. VITE_MODERATION_BLOCKLIST adds terms.
+export const MODERATION_BLOCKED_TERMS = ['free crypto', 'double your money', 'send nudes', 'cashapp me', 'dm for pics', 'onlyfans'];
+export const MODERATION_REPEAT_LIMIT = 3; // Identical messages from one sender within the window
+export const MODERATION_REPEAT_WINDOW_MS = 60000;
+
+// "Catch me up" looks at this many recent messages and keeps summaries to a few points.
+export const SUMMARY_MESSAGE_COUNT = 100;
+export const SUMMARY_MAX_POINTS = 5;
+export const SUMMARY_MAX_QUESTIONS = 3;
+
+// Languages offered as translation targets. Incoming messages in another language are translated lazily, newest first.
+export const TRANSLATION_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English' }, { code: 'es', label: 'Español' }, { code: 'fr', label: 'Français' },
+  { code: 'de', label: 'Deutsch' }, { code: 'it', label: 'Italiano' }, { code: 'pt', label: 'Português' },
+  { code: 'nl', label: 'Nederlands' }, { code: 'ru', label: 'Русский' }, { code: 'ar', label: 'العربية' },
+  { code: 'hi', label: 'हिन्दी' }, { code: 'zh', label: '中文' }, { code: 'ja', label: '日本語' }, { code: 'ko', label: '한국어' },
+];
+export const TRANSLATION_WINDOW = 50; // Only the newest messages are translated automatically
+
+// Choices offered when creating a zone. RADIUS_KM and SESSION_DURATION_MS are the defaults.
+export const ZONE_RADIUS_OPTIONS_KM = [0.2, 1, 5, 10, 25];
+export const ZONE_LIFETIME_OPTIONS_MS = [30 * 60 * 1000, 60 * 60 * 1000, SESSION_DURATION_MS, 6 * 60 * 60 * 1000, 12 * 60 * 60 * 1000];
+export const ZONE_MEMBER_CAP_OPTIONS: (number | null)[] = [null, 10, 25, 50];
+export const MAX_ZONE_RADIUS_KM = 25;
+
+// Geohash length published in discovery pulses (~4.9 km cells). Precise coordinates never leave the device.
+export const GEOCELL_PRECISION = 5;
+
+// Public brokers tried in order when no VITE_BROKER_URLS is configured.
+export const DEFAULT_BROKER_URLS = [
+  'wss://broker.emqx.io:8084/mqtt',
+  'wss://broker.hivemq.com:8884/mqtt',
+];
+export const DEFAULT_TOPIC_PREFIX = 'locuschat/v2';
+export const BROKER_RETRY_DELAY_MS = 3000;
+export const HEALTH_CHECK_INTERVAL_MS = 15000;
+
+// Room payloads carry this marker; clients drop anything produced by another protocol revision.
+export const WIRE_VERSION = 2;
+export const KEY_DERIVATION_ITERATIONS = 150000;
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+export const MAX_REACTIONS_PER_MESSAGE = 200; // Reaction records kept per message, withdrawn ones included
 
 export const ADJECTIVES = ['Silent', 'Neon', 'Echo', 'Prism', 'Ghost', 'Nova', 'Swift', 'Deep', 'Cold', 'Zenith', 'Phantom', 'Cobalt', 'Vivid', 'Amber'];
 export const NOUNS = ['Walker', 'Signal', 'Node', 'Pulse', 'Vertex', 'Spark', 'Vector', 'Orbit', 'Wave', 'Ghost', 'Rider', 'Core', 'Link', 'Flow'];
@@ -1,7 +1,7 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { createSessionIdentity } from './utils/crypto';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +9,14 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+// Each tab signs its messages with a fresh session key; nothing can be sent before it exists.
+createSessionIdentity().then(identity => {
+  root.render(
+    <React.StrictMode>
+      <App identity={identity} />
+    </React.StrictMode>
+  );
+}).catch(err => {
+  console.error("Session identity unavailable", err);
+  rootElement.textContent = "This browser cannot create a secure session (WebCrypto unavailable).";
+});
@@ -0,0 +1,153 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { ModerationResult } from "../types.ts";
+
+const MODEL = "gemini-3-flash-preview";
+
+/** Image or audio sent inline to the model, base64 encoded. */
+export interface InlineMedia {
+  mimeType: string;
+  data: string;
+}
+
+/** One chat line to summarize; media arrive as a caption such as `[IMAGE]`. */
+export interface SummaryInput {
+  sender: string;
+  text: string;
+}
+
+export interface SummaryOutput {
+  points: string[];
+  openQuestions: string[];
+}
+
+export interface TranslationOutput {
+  text: string;
+  /** BCP-47 tag of the detected source language. */
+  sourceLanguage: string;
+}
+
+/**
+ * What the proxy needs from a model. The real backend calls Gemini; the mock answers
+ * deterministically so the client and proxy can be exercised without a key or network.
+ */
+export interface GeminiBackend {
+  moderate(text: string, image?: InlineMedia): Promise<ModerationResult>;
+  advice(): Promise<string>;
+  summarize(lines: SummaryInput[]): Promise<SummaryOutput>;
+  translate(text: string, target: string): Promise<TranslationOutput>;
+  transcribe(audio: InlineMedia, languageHint?: string): Promise<string>;
+}
+
+export const createGeminiBackend = (apiKey: string): GeminiBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    async moderate(text, image) {
+      const prompt = `Determine if the following ${image ? 'image and caption are' : 'message is'} spam, harmful, or abusive in the context of an anonymous public chat. Respond with JSON { "safe": boolean, "reason": string }. Message: ${JSON.stringify(text)}`;
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: { parts: image ? [{ inlineData: image }, { text: prompt }] : [{ text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              safe: { type: Type.BOOLEAN },
+              reason: { type: Type.STRING }
+            },
+            required: ["safe"]
+          }
+        }
+      });
+      // Access .text property directly as per Gemini API guidelines (not a method)
+      const result = JSON.parse(response.text?.trim() || '');
+      if (typeof result?.safe !== 'boolean') throw new Error("Unexpected moderation response.");
+      return { safe: result.safe, reason: typeof result.reason === 'string' ? result.reason : undefined };
+    },
+    async advice() {
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: "Provide a single-sentence tip for maintaining privacy in an anonymous location-based chat app.",
+        config: {
+          systemInstruction: "You are a privacy expert."
+        }
+      });
+      if (!response.text) throw new Error("Empty advice response.");
+      return response.text.trim();
+    },
+    async summarize(lines) {
+      const transcript = lines.map(line => `${line.sender}: ${line.text}`).join('\n');
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: `Summarize this anonymous local chat for someone who just joined. Give at most 5 short points and list questions that are still unanswered (at most 3, prefixed with who asked). Respond with JSON { "points": string[], "openQuestions": string[] }. Chat:\n${transcript}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              points: { type: Type.ARRAY, items: { type: Type.STRING } },
+              openQuestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+            },
+            required: ["points", "openQuestions"]
+          }
+        }
+      });
+      const result = JSON.parse(response.text?.trim() || '');
+      if (!Array.isArray(result?.points) || !Array.isArray(result?.openQuestions)) throw new Error("Unexpected summary response.");
+      return { points: result.points.map(String), openQuestions: result.openQuestions.map(String) };
+    },
+    async translate(text, target) {
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: `Detect the language of this chat message and translate it into the language with BCP-47 tag "${target}". Keep names, emoji and tone. If it is already in that language, return it unchanged. Respond with JSON { "text": string, "sourceLanguage": string } where sourceLanguage is a BCP-47 tag. Message: ${JSON.stringify(text)}`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING },
+              sourceLanguage: { type: Type.STRING }
+            },
+            required: ["text", "sourceLanguage"]
+          }
+        }
+      });
+      const result = JSON.parse(response.text?.trim() || '');
+      if (typeof result?.text !== 'string' || typeof result?.sourceLanguage !== 'string') throw new Error("Unexpected translation response.");
+      return { text: result.text, sourceLanguage: result.sourceLanguage };
+    },
+    async transcribe(audio, languageHint) {
+      const hint = languageHint ? ` The speaker most likely uses the language with BCP-47 tag "${languageHint}".` : '';
+      const response = await ai.models.generateContent({
+        model: MODEL,
+        contents: { parts: [{ inlineData: audio }, { text: `Transcribe this voice note verbatim. Return only the transcript, or an empty string if nothing is said.${hint}` }] },
+      });
+      return response.text?.trim() || '';
+    },
+  };
+};
+
+/** Text containing this marker is flagged by the mock backend. */
+export const MOCK_UNSAFE_MARKER = '[unsafe]';
+
+export const createMockBackend = (): GeminiBackend => ({
+  async moderate(text) {
+    return text.toLowerCase().includes(MOCK_UNSAFE_MARKER)
+      ? { safe: false, reason: 'Flagged by mock backend' }
+      : { safe: true };
+  },
+  async advice() {
+    return "Keep your handle unrelated to your real name.";
+  },
+  async summarize(lines) {
+    return {
+      points: [`Mock summary of ${lines.length} messages`],
+      openQuestions: lines.filter(line => line.text.trim().endsWith('?')).slice(-3).map(line => `${line.sender}: ${line.text.trim()}`),
+    };
+  },
+  async translate(text, target) {
+    return { text: `[${target}] ${text}`, sourceLanguage: 'und' };
+  },
+  async transcribe(audio) {
+    return `Mock transcript of ${audio.data.length} base64 characters`;
+  },
+});
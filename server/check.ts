@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { createMockBackend } from "./backends.ts";
+import { createProxyServer, DEFAULT_PROXY_OPTIONS } from "./proxy.ts";
+
+/**
+ * End-to-end check of the proxy against the mock backend (`npm run server:check`): starts it on
+ * a free port, exercises every endpoint plus the validation and rate-limit paths, and exits
+ * non-zero on the first mismatch.
+ */
+const server = createProxyServer(createMockBackend(), {
+  rateLimits: { ...DEFAULT_PROXY_OPTIONS.rateLimits, advice: { burst: 2, refillMs: 60000 } },
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+const post = (path: string, body: unknown) =>
+  fetch(`${base}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const check = async (name: string, run: () => Promise<void>) => {
+  await run();
+  console.log(`ok - ${name}`);
+};
+
+try {
+  await check("moderate passes clean text and flags the unsafe marker", async () => {
+    assert.deepEqual(await (await post('/moderate', { text: 'hello' })).json(), { safe: true });
+    assert.equal((await (await post('/moderate', { text: 'buy [unsafe] now' })).json()).safe, false);
+  });
+
+  await check("advice answers GET", async () => {
+    const res = await fetch(`${base}/advice`);
+    assert.equal(res.status, 200);
+    assert.equal(typeof (await res.json()).advice, 'string');
+  });
+
+  await check("summarize returns points and open questions", async () => {
+    const res = await post('/summarize', { lines: [{ sender: 'A', text: 'Anyone here?' }, { sender: 'B', text: 'Yes' }] });
+    assert.deepEqual(await res.json(), { points: ['Mock summary of 2 messages'], openQuestions: ['A: Anyone here?'] });
+  });
+
+  await check("translate prefixes the target tag", async () => {
+    assert.deepEqual(await (await post('/translate', { text: 'hola', target: 'en' })).json(), { text: '[en] hola', sourceLanguage: 'und' });
+  });
+
+  await check("transcribe returns text", async () => {
+    const res = await post('/transcribe', { audio: { mimeType: 'audio/webm', data: 'AAAA' } });
+    assert.deepEqual(await res.json(), { text: 'Mock transcript of 4 base64 characters' });
+  });
+
+  await check("malformed bodies are rejected", async () => {
+    assert.equal((await post('/moderate', ['text'])).status, 400);
+    assert.equal((await post('/translate', { text: 'hi', target: 'not a tag' })).status, 400);
+    assert.equal((await post('/transcribe', { audio: { mimeType: 'image/png', data: 'AAAA' } })).status, 400);
+  });
+
+  await check("unknown paths are not found", async () => {
+    assert.equal((await fetch(`${base}/nope`)).status, 404);
+  });
+
+  await check("an exhausted endpoint answers 429 while others stay available", async () => {
+    await fetch(`${base}/advice`);
+    const limited = await fetch(`${base}/advice`);
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers.get('retry-after')) > 0);
+    assert.equal((await post('/moderate', { text: 'still allowed' })).status, 200);
+  });
+} finally {
+  server.close();
+}
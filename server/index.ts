@@ -0,0 +1,23 @@
+import { createGeminiBackend, createMockBackend } from "./backends.ts";
+import { createProxyServer } from "./proxy.ts";
+
+/**
+ * Runs the Gemini proxy: `npm run server` (reads GEMINI_API_KEY from .env.local) or
+ * `npm run server:mock` for the deterministic mock backend.
+ */
+const useMock = process.argv.includes('--mock');
+const apiKey = process.env.GEMINI_API_KEY;
+if (!useMock && !apiKey) {
+  console.error("GEMINI_API_KEY is not set. Use --mock to run without a key.");
+  process.exit(1);
+}
+
+const port = Number(process.env.GEMINI_PROXY_PORT) || 8787;
+const allowedOrigins = (process.env.GEMINI_PROXY_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim()).filter(Boolean);
+
+createProxyServer(useMock ? createMockBackend() : createGeminiBackend(apiKey!), {
+  allowedOrigins,
+  trustForwardedFor: process.env.GEMINI_PROXY_TRUST_FORWARDED_FOR === 'true',
+}).listen(port, () => {
+  console.log(`Gemini proxy (${useMock ? 'mock' : 'gemini'}) listening on http://localhost:${port}`);
+});
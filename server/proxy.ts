@@ -0,0 +1,264 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { createHash } from "node:crypto";
+import type { GeminiBackend, InlineMedia, SummaryInput, SummaryOutput, TranslationOutput } from "./backends.ts";
+import { createBucket, msUntilTokens, takeTokens } from "../utils/rateLimit.ts";
+import type { RateLimit, TokenBucket } from "../utils/rateLimit.ts";
+
+export type ProxyEndpoint = 'moderate' | 'advice' | 'summarize' | 'translate' | 'transcribe';
+
+const ENDPOINTS: ProxyEndpoint[] = ['moderate', 'advice', 'summarize', 'translate', 'transcribe'];
+
+export interface ProxyOptions {
+  /** Origins allowed to call the proxy from a browser; `*` allows any. */
+  allowedOrigins: string[];
+  /** Per-client limit for each endpoint, so heavy translation cannot starve moderation. */
+  rateLimits: Record<ProxyEndpoint, RateLimit>;
+  cacheTtlMs: number;
+  cacheSize: number;
+  maxBodyBytes: number;
+  /** Longest transcript `/summarize` accepts, in lines, and the longest line. */
+  maxSummaryLines: number;
+  maxSummaryLineLength: number;
+  maxTranslationLength: number;
+  /** Take the client address from `X-Forwarded-For`; only safe behind a proxy that sets it. */
+  trustForwardedFor: boolean;
+}
+
+export const DEFAULT_PROXY_OPTIONS: ProxyOptions = {
+  allowedOrigins: ['http://localhost:3000'],
+  rateLimits: {
+    moderate: { burst: 20, refillMs: 3000 },
+    advice: { burst: 3, refillMs: 60000 },
+    summarize: { burst: 3, refillMs: 20000 },
+    translate: { burst: 30, refillMs: 1000 },
+    transcribe: { burst: 5, refillMs: 12000 },
+  },
+  cacheTtlMs: 10 * 60 * 1000,
+  cacheSize: 500,
+  maxBodyBytes: 8 * 1024 * 1024,
+  maxSummaryLines: 200,
+  maxSummaryLineLength: 500,
+  maxTranslationLength: 2000,
+  trustForwardedFor: false,
+};
+
+// How often rate-limit buckets of idle clients are dropped.
+const CLIENT_SWEEP_MS = 60 * 1000;
+
+// Plain fields rather than parameter properties: Node's type stripping cannot run those.
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Small LRU with expiry. Map iteration order is insertion order, so the first key is the oldest.
+ */
+const createCache = <T>(size: number, ttlMs: number) => {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt < Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key: string, value: T) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      if (entries.size > size) entries.delete(entries.keys().next().value!);
+    },
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads a JSON body; the result is unchecked until a route narrows it. */
+const readJson = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    req.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        reject(new HttpError(413, "Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Body must be JSON."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const parseSummaryLines = (value: unknown, options: ProxyOptions): SummaryInput[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > options.maxSummaryLines) {
+    throw new HttpError(400, `lines must hold 1 to ${options.maxSummaryLines} entries.`);
+  }
+  return value.map((line: unknown) => {
+    if (!isRecord(line) || typeof line.sender !== 'string' || typeof line.text !== 'string') throw new HttpError(400, "Each line needs sender and text.");
+    return { sender: line.sender.slice(0, 40), text: line.text.slice(0, options.maxSummaryLineLength) };
+  });
+};
+
+const parseInlineMedia = (value: unknown, field: string, kind: 'image' | 'audio'): InlineMedia => {
+  if (!isRecord(value) || typeof value.data !== 'string' || typeof value.mimeType !== 'string' || !value.mimeType.startsWith(`${kind}/`)) {
+    throw new HttpError(400, `${field} must be { mimeType: '${kind}/*', data: base64 }.`);
+  }
+  return { mimeType: value.mimeType, data: value.data };
+};
+
+/**
+ * HTTP companion that holds the Gemini key on the server:
+ * `POST /moderate` takes `{ text, image? }` and returns `{ safe, reason? }`,
+ * `GET /advice` returns `{ advice }`, `POST /summarize` takes `{ lines: [{ sender, text }] }` and
+ * returns `{ points, openQuestions }`, `POST /translate` takes `{ text, target }` and returns
+ * `{ text, sourceLanguage }`, `POST /transcribe` takes `{ audio, languageHint? }` and returns `{ text }`. Answers are cached and each client is rate limited per endpoint.
+ */
+export const createProxyServer = (backend: GeminiBackend, overrides: Partial<ProxyOptions> = {}): Server => {
+  const options = { ...DEFAULT_PROXY_OPTIONS, ...overrides, rateLimits: { ...DEFAULT_PROXY_OPTIONS.rateLimits, ...overrides.rateLimits } };
+  const moderationCache = createCache<{ safe: boolean; reason?: string }>(options.cacheSize, options.cacheTtlMs);
+  const adviceCache = createCache<string>(1, options.cacheTtlMs);
+  const summaryCache = createCache<SummaryOutput>(options.cacheSize, options.cacheTtlMs);
+  const translationCache = createCache<TranslationOutput>(options.cacheSize, options.cacheTtlMs);
+  const transcriptCache = createCache<string>(options.cacheSize, options.cacheTtlMs);
+  // Buckets by endpoint and client address.
+  const clients = new Map<string, TokenBucket>();
+
+  // A bucket idle long enough to refill completely is no different from a fresh one, so it is dropped.
+  const sweepClients = () => {
+    const now = Date.now();
+    clients.forEach((bucket, id) => {
+      const limit = options.rateLimits[id.slice(0, id.indexOf(' ')) as ProxyEndpoint];
+      if (now - bucket.updatedAt >= limit.burst * limit.refillMs) clients.delete(id);
+    });
+  };
+
+  const clientId = (req: IncomingMessage): string => {
+    const forwarded = options.trustForwardedFor ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  };
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (origin && (options.allowedOrigins.includes('*') || options.allowedOrigins.includes(origin))) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const path = new URL(req.url || '/', 'http://proxy').pathname;
+    const endpoint = ENDPOINTS.find(e => path === `/${e}`);
+    if (!endpoint) throw new HttpError(404, "Not found.");
+
+    const id = `${endpoint} ${clientId(req)}`;
+    const limit = options.rateLimits[endpoint];
+    const bucket = clients.get(id) ?? createBucket(limit);
+    clients.set(id, bucket);
+    if (!takeTokens(bucket, limit)) {
+      res.setHeader('Retry-After', String(Math.ceil(msUntilTokens(bucket, limit) / 1000)));
+      throw new HttpError(429, "Too many requests.");
+    }
+
+    if (path === '/advice') {
+      if (req.method !== 'GET') throw new HttpError(405, "Use GET.");
+      let advice = adviceCache.get('advice');
+      if (!advice) {
+        advice = await backend.advice();
+        adviceCache.set('advice', advice);
+      }
+      return send(res, 200, { advice });
+    }
+
+    if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+    const body = await readJson(req, options.maxBodyBytes);
+    if (!isRecord(body)) throw new HttpError(400, "Body must be a JSON object.");
+
+    if (path === '/summarize') {
+      const lines = parseSummaryLines(body.lines, options);
+      const key = createHash('sha256').update(JSON.stringify(lines)).digest('base64');
+      let summary = summaryCache.get(key);
+      if (!summary) {
+        summary = await backend.summarize(lines);
+        summaryCache.set(key, summary);
+      }
+      return send(res, 200, summary);
+    }
+
+    if (path === '/translate') {
+      if (typeof body.text !== 'string' || body.text.length > options.maxTranslationLength) {
+        throw new HttpError(400, `text is required, up to ${options.maxTranslationLength} characters.`);
+      }
+      if (typeof body.target !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(body.target)) {
+        throw new HttpError(400, "target must be a BCP-47 language tag.");
+      }
+      const key = createHash('sha256').update(JSON.stringify([body.text, body.target])).digest('base64');
+      let translation = translationCache.get(key);
+      if (!translation) {
+        translation = await backend.translate(body.text, body.target);
+        translationCache.set(key, translation);
+      }
+      return send(res, 200, translation);
+    }
+
+    if (path === '/transcribe') {
+      const audio = parseInlineMedia(body.audio, 'audio', 'audio');
+      const hint = typeof body.languageHint === 'string' ? body.languageHint.slice(0, 35) : undefined;
+      const key = createHash('sha256').update(JSON.stringify([audio.mimeType, audio.data, hint])).digest('base64');
+      let text = transcriptCache.get(key);
+      if (text === undefined) {
+        text = await backend.transcribe(audio, hint);
+        transcriptCache.set(key, text);
+      }
+      return send(res, 200, { text });
+    }
+
+    if (typeof body.text !== 'string') throw new HttpError(400, "text is required.");
+    const image = body.image === undefined ? undefined : parseInlineMedia(body.image, 'image', 'image');
+    const key = createHash('sha256').update(JSON.stringify([body.text, image?.mimeType, image?.data])).digest('base64');
+    let result = moderationCache.get(key);
+    if (!result) {
+      result = await backend.moderate(body.text, image);
+      moderationCache.set(key, result);
+    }
+    send(res, 200, result);
+  };
+
+  const server = createServer((req, res) => {
+    route(req, res).catch(err => {
+      if (err instanceof HttpError) return send(res, err.status, { error: err.message });
+      console.error("Gemini proxy request failed", err);
+      send(res, 502, { error: "Upstream model unavailable." });
+    });
+  });
+  const sweep = setInterval(sweepClients, CLIENT_SWEEP_MS);
+  sweep.unref();
+  server.on('close', () => clearInterval(sweep));
+  return server;
+};
@@ -0,0 +1,65 @@
+import { DEFAULT_BROKER_URLS, DEFAULT_TOPIC_PREFIX } from '../constants';
+
+/**
+ * Where and how the app reaches its MQTT broker.
+ * Defaults come from Vite env vars; the advanced settings panel can override them for the
+ * current session only (nothing is written to storage, in keeping with the RAM-only model).
+ */
+export interface BrokerConfig {
+  /** WebSocket URLs tried in order; the next one is used when a connection attempt fails. */
+  urls: string[];
+  username?: string;
+  password?: string;
+  topicPrefix: string;
+  /** Only honored by Node-based clients (e.g. tests against a local broker); browsers enforce TLS themselves. */
+  rejectUnauthorized: boolean;
+}
+
+const parseList = (raw?: string): string[] =>
+  (raw || '').split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+export const normalizeTopicPrefix = (prefix: string): string => prefix.trim().replace(/^\/+|\/+$/g, '');
+
+export const getEnvBrokerConfig = (): BrokerConfig => {
+  const env = import.meta.env;
+  const urls = parseList(env.VITE_BROKER_URLS);
+  return {
+    urls: urls.length > 0 ? urls : [...DEFAULT_BROKER_URLS],
+    username: env.VITE_BROKER_USERNAME || undefined,
+    password: env.VITE_BROKER_PASSWORD || undefined,
+    topicPrefix: normalizeTopicPrefix(env.VITE_TOPIC_PREFIX || DEFAULT_TOPIC_PREFIX),
+    rejectUnauthorized: env.VITE_BROKER_REJECT_UNAUTHORIZED !== 'false',
+  };
+};
+
+/**
+ * Returns a human-readable problem with the config, or null when it is usable.
+ */
+export const validateBrokerConfig = (config: BrokerConfig): string | null => {
+  if (config.urls.length === 0) return "At least one broker URL is required.";
+  for (const url of config.urls) {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return `Invalid broker URL: ${url}`;
+    }
+    if (parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') {
+      return `Browsers can only reach brokers over ws:// or wss:// (${url}).`;
+    }
+  }
+  if (!config.topicPrefix) return "Topic prefix cannot be empty.";
+  if (/[+#]/.test(config.topicPrefix)) return "Topic prefix cannot contain MQTT wildcards.";
+  if (config.password && !config.username) return "A password requires a username.";
+  return null;
+};
+
+export const parseBrokerUrls = parseList;
+
+export const getBrokerLabel = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
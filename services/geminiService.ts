@@ -1,59 +1,108 @@
+import { ModerationResult } from "../types";
+import { SummaryLine } from "../utils/summary";
+import { bytesToBase64 } from "../utils/crypto";
 
-import { GoogleGenAI, Type } from "@google/genai";
+// The Gemini key lives in the companion proxy (server/); the browser only knows the proxy's URL.
+const PROXY_TIMEOUT_MS = 8000;
+
+const getProxyUrl = (): string => (import.meta.env.VITE_GEMINI_PROXY_URL || '').replace(/\/+$/, '');
 
 /**
- * Moderates chat content using Gemini to identify spam, harm, or abuse.
- * Initializes the AI client inside the function call to ensure fresh configuration from process.env.API_KEY.
+ * Whether a Gemini proxy is configured. Without one the moderation pipeline runs its local stage only.
  */
-export const moderateContent = async (text: string): Promise<{ safe: boolean; reason?: string }> => {
-  // Use process.env.API_KEY directly and create instance right before call
-  if (!process.env.API_KEY) return { safe: true };
+export const isGeminiConfigured = (): boolean => !!getProxyUrl();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
 
+/** Calls the proxy; the decoded body is unchecked, so each caller narrows it to the shape it expects. */
+const callProxy = async (path: string, init?: RequestInit): Promise<unknown> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROXY_TIMEOUT_MS);
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Determine if the following message is spam, harmful, or abusive in the context of an anonymous public chat. Respond with JSON { "safe": boolean, "reason": string }. Message: "${text}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            safe: { type: Type.BOOLEAN },
-            reason: { type: Type.STRING }
-          },
-          required: ["safe"]
-        }
-      }
-    });
-
-    // Access .text property directly as per Gemini API guidelines (not a method)
-    const textResult = response.text?.trim() || '{"safe": true}';
-    return JSON.parse(textResult);
-  } catch (error) {
-    console.error("Moderation error:", error);
-    return { safe: true };
+    const response = await fetch(`${getProxyUrl()}${path}`, { ...init, signal: controller.signal });
+    if (!response.ok) throw new Error(`Gemini proxy answered ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
   }
 };
 
+/**
+ * Asks Gemini, through the proxy, whether a message and optionally an attached image is spam, harmful, or abusive.
+ * Throws when the proxy is unreachable or refuses; the moderation pipeline decides whether that blocks the message.
+ */
+export const moderateContent = async (text: string, image?: Blob): Promise<ModerationResult> => {
+  if (!isGeminiConfigured()) throw new Error("Gemini proxy is not configured.");
+  const body = {
+    text,
+    image: image ? { mimeType: image.type || 'image/jpeg', data: bytesToBase64(new Uint8Array(await image.arrayBuffer())) } : undefined,
+  };
+  const result = await callProxy('/moderate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!isRecord(result) || typeof result.safe !== 'boolean') throw new Error("Unexpected moderation response.");
+  return { safe: result.safe, reason: typeof result.reason === 'string' ? result.reason : undefined };
+};
+
 /**
  * Fetches a privacy tip for users from Gemini to display on the join screen.
  */
 export const getPrivacyAdvice = async (): Promise<string> => {
-    if (!process.env.API_KEY) return "Stay safe and don't share personal info.";
-
-    try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: "Provide a single-sentence tip for maintaining privacy in an anonymous location-based chat app.",
-            config: {
-                systemInstruction: "You are a privacy expert."
-            }
-        });
-        // Access .text property directly
-        return response.text || "Stay safe.";
-    } catch (e) {
-        return "Protect your personal data.";
-    }
+  if (!isGeminiConfigured()) return "Stay safe and don't share personal info.";
+
+  try {
+    const result = await callProxy('/advice');
+    return isRecord(result) && typeof result.advice === 'string' && result.advice ? result.advice : "Stay safe.";
+  } catch (e) {
+    return "Protect your personal data.";
+  }
+};
+
+/**
+ * Asks Gemini, through the proxy, for a catch-up digest of a transcript. Throws when the proxy
+ * is unavailable so callers can fall back to the offline summary.
+ */
+export const summarizeConversation = async (lines: SummaryLine[]): Promise<{ points: string[]; openQuestions: string[] }> => {
+  if (!isGeminiConfigured()) throw new Error("Gemini proxy is not configured.");
+  const result = await callProxy('/summarize', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ lines: lines.map(({ sender, text }) => ({ sender, text })) }),
+  });
+  if (!isRecord(result) || !Array.isArray(result.points) || !Array.isArray(result.openQuestions)) throw new Error("Unexpected summary response.");
+  return { points: result.points.map(String), openQuestions: result.openQuestions.map(String) };
+};
+
+/**
+ * Translates a message into `target` through the proxy and reports the detected source language.
+ */
+export const translateText = async (text: string, target: string): Promise<{ text: string; sourceLanguage: string }> => {
+  if (!isGeminiConfigured()) throw new Error("Gemini proxy is not configured.");
+  const result = await callProxy('/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, target }),
+  });
+  if (!isRecord(result) || typeof result.text !== 'string' || typeof result.sourceLanguage !== 'string') throw new Error("Unexpected translation response.");
+  return { text: result.text, sourceLanguage: result.sourceLanguage };
+};
+
+/**
+ * Transcribes a voice note through the proxy.
+ */
+export const transcribeAudio = async (audio: Blob, languageHint?: string): Promise<string> => {
+  if (!isGeminiConfigured()) throw new Error("Gemini proxy is not configured.");
+  const result = await callProxy('/transcribe', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      audio: { mimeType: (audio.type || 'audio/webm').split(';')[0], data: bytesToBase64(new Uint8Array(await audio.arrayBuffer())) },
+      languageHint,
+    }),
+  });
+  if (!isRecord(result) || typeof result.text !== 'string') throw new Error("Unexpected transcription response.");
+  return result.text;
 };
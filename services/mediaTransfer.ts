@@ -0,0 +1,221 @@
+import { MediaDescriptor, MediaTransferState } from '../types';
+import { MEDIA_CHUNK_SIZE_BYTES, MEDIA_CHUNK_TIMEOUT_MS, MEDIA_MAX_RETRIES } from '../constants';
+import { randomToken, sha256Base64 } from '../utils/crypto';
+import { getMaxMediaSizeMb } from '../utils/media';
+
+/** Caps how many missing chunk indices a single `media_req` asks for. */
+const MAX_REQUESTED_CHUNKS = 64;
+/**
+ * Chunks that arrive before their message are parked, for the newest few transfers and within a
+ * small memory budget. Anything beyond it is dropped and re-requested once the message arrives.
+ */
+const MAX_ORPHAN_TRANSFERS = 8;
+const MAX_PARKED_CHUNKS = 16;
+const MAX_PARKED_BYTES = 2 * 1024 * 1024;
+/** Several receivers usually miss the same chunks; resend each one at most this often. */
+const RESEND_COOLDOWN_MS = 2000;
+
+export interface MediaTransferTransport {
+  publishChunk: (transferId: string, index: number, bytes: Uint8Array) => Promise<void>;
+  requestChunks: (transferId: string, missing: number[]) => void;
+  onUpdate: (transferId: string, state: MediaTransferState) => void;
+}
+
+interface Outgoing {
+  chunks: Uint8Array[];
+  url: string;
+}
+
+interface Incoming {
+  descriptor: MediaDescriptor;
+  chunks: (Uint8Array | undefined)[];
+  received: number;
+  retries: number;
+  progressSinceCheck: boolean;
+  timer: ReturnType<typeof setInterval>;
+}
+
+/**
+ * Moves attachments as numbered chunks on per-transfer subtopics, so a single publish no
+ * longer has to carry the whole file. Uploads stay in RAM so missing chunks can be resent;
+ * downloads are checked chunk by chunk against the descriptor's checksums and re-requested
+ * after MEDIA_CHUNK_TIMEOUT_MS of silence. Everything is dropped (and object URLs revoked) on clear().
+ */
+export class MediaTransferManager {
+  private outgoing = new Map<string, Outgoing>();
+  private incoming = new Map<string, Incoming>();
+  private orphans = new Map<string, Map<number, Uint8Array>>();
+  private parkedBytes = 0;
+  private urls = new Map<string, string>();
+  private resentAt = new Map<string, number>();
+
+  constructor(private readonly transport: MediaTransferTransport) {}
+
+  /**
+   * Splits a blob into chunks and builds its descriptor. Nothing is sent until send().
+   */
+  async prepare(blob: Blob): Promise<MediaDescriptor> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const chunks: Uint8Array[] = [];
+    for (let offset = 0; offset < bytes.length; offset += MEDIA_CHUNK_SIZE_BYTES) {
+      chunks.push(bytes.subarray(offset, offset + MEDIA_CHUNK_SIZE_BYTES));
+    }
+    const transferId = randomToken(12).replace(/[^\w]/g, '');
+    const url = URL.createObjectURL(blob);
+    this.outgoing.set(transferId, { chunks, url });
+    this.urls.set(transferId, url);
+    return {
+      transferId,
+      mimeType: blob.type,
+      size: bytes.length,
+      chunkSize: MEDIA_CHUNK_SIZE_BYTES,
+      checksums: await Promise.all(chunks.map(sha256Base64)),
+    };
+  }
+
+  async send(transferId: string): Promise<void> {
+    const upload = this.outgoing.get(transferId);
+    if (!upload) return;
+    const total = upload.chunks.length;
+    for (let i = 0; i < total; i++) {
+      this.transport.onUpdate(transferId, { status: 'sending', done: i, total });
+      await this.transport.publishChunk(transferId, i, upload.chunks[i]);
+    }
+    this.transport.onUpdate(transferId, { status: 'complete', done: total, total, url: upload.url });
+  }
+
+  /**
+   * Answers a peer's `media_req`. Only the uploader holds the chunks, so other clients ignore it.
+   */
+  async resend(transferId: string, indices: number[]): Promise<void> {
+    const upload = this.outgoing.get(transferId);
+    if (!upload) return;
+    for (const i of indices) {
+      const key = `${transferId}:${i}`;
+      if (!upload.chunks[i] || Date.now() - (this.resentAt.get(key) ?? 0) < RESEND_COOLDOWN_MS) continue;
+      this.resentAt.set(key, Date.now());
+      await this.transport.publishChunk(transferId, i, upload.chunks[i]);
+    }
+  }
+
+  isUploader(transferId: string): boolean {
+    return this.outgoing.has(transferId);
+  }
+
+  /**
+   * Starts assembling an attachment announced in a message. Chunks that arrived early are replayed.
+   * Calling it again for a failed transfer starts over.
+   */
+  expect(descriptor: MediaDescriptor) {
+    const { transferId } = descriptor;
+    if (this.outgoing.has(transferId) || this.incoming.has(transferId) || this.urls.has(transferId)) return;
+    const total = descriptor.checksums.length;
+    if (descriptor.size > getMaxMediaSizeMb() * 1024 * 1024) {
+      this.transport.onUpdate(transferId, { status: 'failed', done: 0, total });
+      return;
+    }
+    const transfer: Incoming = {
+      descriptor,
+      chunks: new Array(total),
+      received: 0,
+      retries: 0,
+      progressSinceCheck: false,
+      timer: setInterval(() => this.checkStalled(transferId), MEDIA_CHUNK_TIMEOUT_MS),
+    };
+    this.incoming.set(transferId, transfer);
+    this.transport.onUpdate(transferId, { status: 'receiving', done: 0, total });
+
+    const parked = this.unpark(transferId);
+    parked?.forEach((bytes, index) => this.receive(transferId, index, bytes));
+    if (total === 0) this.finish(transferId, transfer);
+  }
+
+  async receive(transferId: string, index: number, bytes: Uint8Array) {
+    const transfer = this.incoming.get(transferId);
+    if (!transfer) {
+      if (this.outgoing.has(transferId) || this.urls.has(transferId)) return;
+      this.park(transferId, index, bytes);
+      return;
+    }
+    if (index >= transfer.chunks.length || transfer.chunks[index]) return;
+    // A chunk that fails its checksum is simply not stored; the stall check asks for it again.
+    if (await sha256Base64(bytes) !== transfer.descriptor.checksums[index]) return;
+    if (transfer.chunks[index] || this.incoming.get(transferId) !== transfer) return;
+    transfer.chunks[index] = bytes;
+    transfer.received++;
+    transfer.progressSinceCheck = true;
+    const total = transfer.chunks.length;
+    if (transfer.received === total) this.finish(transferId, transfer);
+    else this.transport.onUpdate(transferId, { status: 'receiving', done: transfer.received, total });
+  }
+
+  /**
+   * Revokes every object URL and forgets all transfers.
+   */
+  clear() {
+    this.incoming.forEach(t => clearInterval(t.timer));
+    this.urls.forEach(url => URL.revokeObjectURL(url));
+    this.incoming.clear();
+    this.outgoing.clear();
+    this.orphans.clear();
+    this.parkedBytes = 0;
+    this.urls.clear();
+    this.resentAt.clear();
+  }
+
+  private finish(transferId: string, transfer: Incoming) {
+    clearInterval(transfer.timer);
+    this.incoming.delete(transferId);
+    const blob = new Blob(transfer.chunks as Uint8Array[], { type: transfer.descriptor.mimeType });
+    const url = URL.createObjectURL(blob);
+    this.urls.set(transferId, url);
+    const total = transfer.chunks.length;
+    this.transport.onUpdate(transferId, { status: 'complete', done: total, total, url });
+  }
+
+  private checkStalled(transferId: string) {
+    const transfer = this.incoming.get(transferId);
+    if (!transfer) return;
+    if (transfer.progressSinceCheck) {
+      transfer.progressSinceCheck = false;
+      return;
+    }
+    const total = transfer.chunks.length;
+    if (transfer.retries >= MEDIA_MAX_RETRIES) {
+      clearInterval(transfer.timer);
+      this.incoming.delete(transferId);
+      this.transport.onUpdate(transferId, { status: 'failed', done: transfer.received, total });
+      return;
+    }
+    transfer.retries++;
+    const missing: number[] = [];
+    for (let i = 0; i < total && missing.length < MAX_REQUESTED_CHUNKS; i++) {
+      if (!transfer.chunks[i]) missing.push(i);
+    }
+    this.transport.requestChunks(transferId, missing);
+  }
+
+  private park(transferId: string, index: number, bytes: Uint8Array) {
+    if (bytes.length > MEDIA_CHUNK_SIZE_BYTES) return;
+    const parked = this.orphans.get(transferId) ?? new Map<number, Uint8Array>();
+    if (parked.size >= MAX_PARKED_CHUNKS || parked.has(index)) return;
+    const isFull = () => this.parkedBytes + bytes.length > MAX_PARKED_BYTES ||
+      (!this.orphans.has(transferId) && this.orphans.size >= MAX_ORPHAN_TRANSFERS);
+    // Make room by dropping the oldest other transfers.
+    for (const oldest of this.orphans.keys()) {
+      if (!isFull()) break;
+      if (oldest !== transferId) this.unpark(oldest);
+    }
+    if (isFull()) return;
+    parked.set(index, bytes);
+    this.orphans.set(transferId, parked);
+    this.parkedBytes += bytes.length;
+  }
+
+  private unpark(transferId: string): Map<number, Uint8Array> | undefined {
+    const parked = this.orphans.get(transferId);
+    this.orphans.delete(transferId);
+    parked?.forEach(bytes => { this.parkedBytes -= bytes.length; });
+    return parked;
+  }
+}
@@ -0,0 +1,173 @@
+import { MediaType, Message, ModerationResult } from '../types';
+import { MODERATION_BLOCKED_TERMS, MODERATION_REPEAT_LIMIT, MODERATION_REPEAT_WINDOW_MS } from '../constants';
+import { isGeminiConfigured, moderateContent } from './geminiService';
+
+export type ModerationFailMode = 'open' | 'closed';
+
+/**
+ * What a moderation stage looks at. `key` identifies the content for repeat detection
+ * (the text, or the first chunk checksum of an attachment).
+ */
+export interface ModerationInput {
+  senderId: string;
+  type: MediaType;
+  text: string;
+  key: string;
+  media?: Blob;
+}
+
+/**
+ * One step of the pipeline. A stage that throws counts as unavailable and is handled per fail mode.
+ */
+export interface ModerationStage {
+  name: string;
+  check(input: ModerationInput): ModerationResult | Promise<ModerationResult>;
+}
+
+export interface LocalRuleConfig {
+  blockedTerms: string[];
+  patterns: { pattern: RegExp; reason: string }[];
+  blockLinks: boolean;
+  blockPhoneNumbers: boolean;
+}
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|co|me|gg|ly|xyz|ru|info|link|app)(?:\/\S*)?\b/i;
+const PHONE_CANDIDATE = /\+?\d[\d\s().-]{5,}\d/g;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const DEFAULT_PATTERNS: LocalRuleConfig['patterns'] = [
+  { pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/, reason: 'Email addresses are personal info' },
+  { pattern: /\b(?:bc1|[13])[a-km-zA-HJ-NP-Z1-9]{25,39}\b|\b0x[a-fA-F0-9]{40}\b/, reason: 'Crypto wallet addresses are not allowed' },
+];
+
+/** Lowercases, undoes common character swaps and collapses punctuation so `fr33-crypt0` style evasion still matches. */
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[013457@$]/g, c => LEET[c]).replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const parseList = (raw?: string): string[] =>
+  (raw || '').split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+export const getEnvModerationConfig = (): LocalRuleConfig & { failMode: ModerationFailMode } => {
+  const env = import.meta.env;
+  return {
+    blockedTerms: [...MODERATION_BLOCKED_TERMS, ...parseList(env.VITE_MODERATION_BLOCKLIST)],
+    patterns: DEFAULT_PATTERNS,
+    blockLinks: env.VITE_MODERATION_BLOCK_LINKS !== 'false',
+    blockPhoneNumbers: env.VITE_MODERATION_BLOCK_PHONES !== 'false',
+    failMode: env.VITE_MODERATION_FAIL_MODE === 'closed' ? 'closed' : 'open',
+  };
+};
+
+/**
+ * On-device rule engine: wordlist, regex patterns, links, phone numbers and repeat spam.
+ * Needs no network, so it runs on every outgoing and incoming message.
+ */
+export class LocalRuleEngine implements ModerationStage {
+  name = 'local';
+  private terms: RegExp[];
+  private recent = new Map<string, { key: string; at: number }[]>();
+
+  constructor(private config: LocalRuleConfig) {
+    this.terms = config.blockedTerms
+      .map(term => normalize(term))
+      .filter(Boolean)
+      .map(term => new RegExp(`(?:^| )${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?: |$)`));
+  }
+
+  check(input: ModerationInput): ModerationResult {
+    const text = input.text;
+    if (text) {
+      const normalized = normalize(text);
+      if (this.terms.some(term => term.test(normalized))) return { safe: false, reason: 'Blocked term' };
+      const rule = this.config.patterns.find(({ pattern }) => pattern.test(text));
+      if (rule) return { safe: false, reason: rule.reason };
+      if (this.config.blockLinks && LINK_PATTERN.test(text)) return { safe: false, reason: 'Links are not allowed' };
+      if (this.config.blockPhoneNumbers && (text.match(PHONE_CANDIDATE) || []).some(c => {
+        const digits = c.replace(/\D/g, '').length;
+        // Bare runs of digits shorter than a full number are more likely amounts than phone numbers.
+        return digits >= 7 && digits <= 15 && (digits >= 10 || /[\s().+-]/.test(c)) && !ISO_DATE.test(c.trim());
+      })) {
+        return { safe: false, reason: 'Phone numbers are personal info' };
+      }
+    }
+    return this.checkRepeat(input);
+  }
+
+  private checkRepeat(input: ModerationInput): ModerationResult {
+    if (!input.key) return { safe: true };
+    const now = Date.now();
+    const key = input.type === 'text' ? normalize(input.key) : input.key;
+    const history = (this.recent.get(input.senderId) || []).filter(entry => now - entry.at < MODERATION_REPEAT_WINDOW_MS);
+    history.push({ key, at: now });
+    this.recent.set(input.senderId, history);
+    const repeats = history.filter(entry => entry.key === key).length;
+    return repeats >= MODERATION_REPEAT_LIMIT ? { safe: false, reason: 'Repeated message' } : { safe: true };
+  }
+
+  /** Forgets repeat history, e.g. when leaving a zone. */
+  reset() {
+    this.recent.clear();
+  }
+}
+
+/**
+ * Gemini as a second opinion on text and images. Video and audio are not sent.
+ */
+export const geminiStage: ModerationStage = {
+  name: 'gemini',
+  check: (input) => {
+    if (input.type === 'video' || input.type === 'audio') return { safe: true };
+    return moderateContent(input.text, input.type === 'image' ? input.media : undefined);
+  },
+};
+
+/**
+ * Runs stages in order and stops at the first one that flags the content. With fail mode
+ * `closed`, a stage that errors blocks the content; with `open` it is skipped.
+ */
+export class ModerationPipeline {
+  constructor(private stages: ModerationStage[], private failMode: ModerationFailMode) {}
+
+  use(stage: ModerationStage) {
+    this.stages.push(stage);
+  }
+
+  async check(input: ModerationInput): Promise<ModerationResult> {
+    for (const stage of this.stages) {
+      try {
+        const result = await stage.check(input);
+        if (!result.safe) return result;
+      } catch (err) {
+        console.warn(`Moderation stage "${stage.name}" failed`, err);
+        if (this.failMode === 'closed') return { safe: false, reason: 'Moderation is unavailable right now' };
+      }
+    }
+    return { safe: true };
+  }
+}
+
+const config = getEnvModerationConfig();
+export const localRules = new LocalRuleEngine(config);
+
+/** Screens our own messages before they are sent: local rules, then Gemini when configured. */
+export const outgoingModeration = new ModerationPipeline(isGeminiConfigured() ? [localRules, geminiStage] : [localRules], config.failMode);
+
+export const moderationKey = (msg: Pick<Message, 'text' | 'media'>): string => msg.text || msg.media?.checksums[0] || '';
+
+/**
+ * Screens a member handle with the local word and pattern rules. Handles are not repeat-checked.
+ */
+export const screenHandle = (handle: string): ModerationResult =>
+  localRules.check({ senderId: '', type: 'text', text: handle, key: '' });
+
+/** A handle fit to display: the member's own if the local rules pass it, a neutral one otherwise. */
+export const displayHandle = (handle: string, fingerprint: string): string =>
+  screenHandle(handle).safe ? handle : `MEMBER ${fingerprint.slice(0, 4).toUpperCase()}`;
+
+/**
+ * Screens a message from another member with the local rules only, so receiving stays offline
+ * and free. Flagged messages are blurred rather than dropped.
+ */
+export const screenIncoming = (msg: Message): ModerationResult =>
+  localRules.check({ senderId: msg.senderId, type: msg.type, text: [msg.text, msg.transcript].filter(Boolean).join(' '), key: moderationKey(msg) });
@@ -0,0 +1,311 @@
+import mqtt, { MqttClient } from 'mqtt';
+import { BrokerHealth, ConnectionStatus, Zone } from '../types';
+import { BROKER_RETRY_DELAY_MS, HEALTH_CHECK_INTERVAL_MS } from '../constants';
+import { openMediaChunk, openRoomPayload, randomToken, sealMediaChunk, sealRoomPayload } from '../utils/crypto';
+import { BrokerConfig, getEnvBrokerConfig } from './brokerConfig';
+import {
+  AuthEvent,
+  RoomEvent,
+  Topics,
+  buildTopics,
+  parseAuthEvent,
+  parseDiscoveryRequest,
+  parseRoomEvent,
+  parseZoneBeacon
+} from './roomProtocol';
+
+export interface RoomClientEvents {
+  status: (status: ConnectionStatus) => void;
+  /** Fired after every (re)connect, once all subscriptions are restored. */
+  ready: () => void;
+  room: (event: RoomEvent) => void;
+  /** A room payload that could not be opened (wrong key, foreign wire version, malformed JSON). */
+  roomError: (error: unknown) => void;
+  /** A verified-decryptable media chunk; checksums are checked by the consumer. */
+  mediaChunk: (transferId: string, index: number, bytes: Uint8Array) => void;
+  discovery: (zone: Zone) => void;
+  discoveryRequest: (sender: string) => void;
+  auth: (zoneId: string, event: AuthEvent) => void;
+  health: (health: BrokerHealth | null) => void;
+}
+
+type ListenerMap = { [K in keyof RoomClientEvents]: Set<RoomClientEvents[K]> };
+
+/**
+ * Single long-lived MQTT connection for the whole app.
+ * Rooms are joined and left by (un)subscribing on the same connection, and every
+ * subscription is restored after a reconnect. Consumers listen through `on()`.
+ *
+ * Reconnects are driven here rather than by mqtt.js so that a failed attempt can move
+ * on to the next broker in `config.urls`; a dropped but previously healthy broker is retried first.
+ */
+export class RoomClient {
+  private client: MqttClient | null = null;
+  private listeners: ListenerMap = {
+    status: new Set(), ready: new Set(), room: new Set(), roomError: new Set(), mediaChunk: new Set(),
+    discovery: new Set(), discoveryRequest: new Set(), auth: new Set(), health: new Set(),
+  };
+  private readonly topics: Topics;
+  private roomId: string | null = null;
+  private sealKey: CryptoKey | null = null;
+  private hosting = false;
+  private authZones = new Set<string>();
+  private urlIndex = 0;
+  private failedAttempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingProbe: { id: string; sentAt: number } | null = null;
+
+  constructor(private readonly fingerprint: string, private readonly config: BrokerConfig = getEnvBrokerConfig()) {
+    this.topics = buildTopics(config.topicPrefix);
+  }
+
+  get brokerUrl(): string {
+    return this.config.urls[this.urlIndex];
+  }
+
+  get connected(): boolean {
+    return !!this.client?.connected;
+  }
+
+  on<K extends keyof RoomClientEvents>(event: K, listener: RoomClientEvents[K]): () => void {
+    this.listeners[event].add(listener);
+    return () => { this.listeners[event].delete(listener); };
+  }
+
+  private emit<K extends keyof RoomClientEvents>(event: K, ...args: Parameters<RoomClientEvents[K]>) {
+    this.listeners[event].forEach(listener => (listener as (...a: Parameters<RoomClientEvents[K]>) => void)(...args));
+  }
+
+  connect() {
+    if (this.client || this.retryTimer) return;
+    this.attempt();
+  }
+
+  private attempt() {
+    this.retryTimer = null;
+    const url = this.brokerUrl;
+    let established = false;
+    const client = mqtt.connect(url, {
+      clientId: 'loc_' + this.fingerprint,
+      clean: true,
+      connectTimeout: 30000,
+      reconnectPeriod: 0,
+      keepalive: 60,
+      reschedulePings: true,
+      protocolVersion: 4,
+      username: this.config.username,
+      password: this.config.password,
+      rejectUnauthorized: this.config.rejectUnauthorized,
+    });
+
+    client.on('connect', () => {
+      established = true;
+      this.failedAttempts = 0;
+      this.emit('status', 'connected');
+      client.subscribe(this.topics.discovery);
+      client.subscribe(this.topics.health(this.fingerprint));
+      if (this.hosting) client.subscribe(this.topics.discoveryRequest);
+      if (this.roomId) client.subscribe([this.topics.room(this.roomId), this.topics.mediaAll(this.roomId)]);
+      this.authZones.forEach(zoneId => client.subscribe(this.topics.auth(zoneId)));
+      this.requestDiscovery();
+      this.startHealthChecks();
+      this.emit('ready');
+    });
+    client.on('close', () => {
+      if (this.client !== client) return;
+      this.client = null;
+      this.stopHealthChecks();
+      client.end(true);
+      if (!established) {
+        this.failedAttempts++;
+        this.urlIndex = (this.urlIndex + 1) % this.config.urls.length;
+      }
+      // A full pass over the fallback list without success means we are effectively offline.
+      this.emit('status', this.failedAttempts >= this.config.urls.length ? 'offline' : 'reconnecting');
+      this.retryTimer = setTimeout(() => this.attempt(), BROKER_RETRY_DELAY_MS);
+    });
+    client.on('error', (err: Error) => {
+      console.error(`MQTT Error (${url}):`, err);
+    });
+    client.on('message', (topic, payload) => this.route(topic, payload));
+
+    this.client = client;
+  }
+
+  disconnect() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.stopHealthChecks();
+    const client = this.client;
+    this.client = null;
+    client?.end(true);
+  }
+
+  /**
+   * Health is measured by echoing a probe through the broker on a private topic.
+   */
+  private startHealthChecks() {
+    this.stopHealthChecks();
+    this.probe();
+    this.healthTimer = setInterval(() => this.probe(), HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  private stopHealthChecks() {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthTimer = null;
+    this.pendingProbe = null;
+    this.emit('health', null);
+  }
+
+  private probe() {
+    if (!this.client?.connected) return;
+    if (this.pendingProbe) {
+      this.emit('health', { url: this.brokerUrl, latencyMs: null, checkedAt: Date.now() });
+    }
+    this.pendingProbe = { id: randomToken(8), sentAt: performance.now() };
+    this.client.publish(this.topics.health(this.fingerprint), this.pendingProbe.id);
+  }
+
+  /**
+   * Switches the room subscription. Only one room is active at a time.
+   */
+  enterRoom(zoneId: string, sealKey: CryptoKey | null) {
+    if (this.roomId && this.roomId !== zoneId) {
+      this.client?.unsubscribe([this.topics.room(this.roomId), this.topics.mediaAll(this.roomId)]);
+    }
+    this.roomId = zoneId;
+    this.sealKey = sealKey;
+    this.client?.subscribe([this.topics.room(zoneId), this.topics.mediaAll(zoneId)]);
+  }
+
+  leaveRoom() {
+    if (this.roomId) {
+      this.client?.unsubscribe([this.topics.room(this.roomId), this.topics.mediaAll(this.roomId)]);
+      this.unwatchAuth(this.roomId);
+    }
+    this.roomId = null;
+    this.sealKey = null;
+    this.setHosting(false);
+  }
+
+  /**
+   * Hosts answer discovery sync requests from newcomers.
+   */
+  setHosting(hosting: boolean) {
+    if (hosting === this.hosting) return;
+    this.hosting = hosting;
+    if (hosting) this.client?.subscribe(this.topics.discoveryRequest);
+    else this.client?.unsubscribe(this.topics.discoveryRequest);
+  }
+
+  watchAuth(zoneId: string): Promise<void> {
+    this.authZones.add(zoneId);
+    return new Promise(resolve => {
+      if (!this.client) return resolve();
+      this.client.subscribe(this.topics.auth(zoneId), () => resolve());
+    });
+  }
+
+  unwatchAuth(zoneId: string) {
+    if (!this.authZones.delete(zoneId)) return;
+    this.client?.unsubscribe(this.topics.auth(zoneId));
+  }
+
+  /**
+   * Seals a room event with the current zone key (if any) and publishes it. With `qos: 1`
+   * the promise settles once the broker acknowledges the publish.
+   */
+  async publishRoom(event: RoomEvent, qos: 0 | 1 = 0): Promise<void> {
+    const client = this.client;
+    const zoneId = this.roomId;
+    if (!client || !zoneId) throw new Error("No active room transport.");
+    const payload = await sealRoomPayload(event, this.sealKey);
+    return new Promise((resolve, reject) => {
+      client.publish(this.topics.room(zoneId), payload, { qos }, err => err ? reject(err) : resolve());
+    });
+  }
+
+  /**
+   * Seals one media chunk and publishes it on the transfer's own subtopic.
+   */
+  async publishMediaChunk(transferId: string, index: number, bytes: Uint8Array): Promise<void> {
+    const client = this.client;
+    const zoneId = this.roomId;
+    if (!client || !zoneId) throw new Error("No active room transport.");
+    const frame = await sealMediaChunk(index, bytes, this.sealKey);
+    return new Promise((resolve, reject) => {
+      // mqtt.js accepts any Uint8Array at runtime; its typings only name Buffer.
+      client.publish(this.topics.media(zoneId, transferId), frame as Buffer, err => err ? reject(err) : resolve());
+    });
+  }
+
+  publishAuth(zoneId: string, event: AuthEvent) {
+    this.client?.publish(this.topics.auth(zoneId), JSON.stringify(event));
+  }
+
+  publishDiscovery(zone: Zone) {
+    this.client?.publish(this.topics.discovery, JSON.stringify(zone));
+  }
+
+  requestDiscovery() {
+    this.client?.publish(this.topics.discoveryRequest, JSON.stringify({ type: 'sync_req', sender: this.fingerprint }));
+  }
+
+  private route(topic: string, payload: Uint8Array) {
+    const roomId = this.roomId;
+    const mediaPrefix = roomId ? this.topics.media(roomId, '') : null;
+    if (roomId && mediaPrefix && topic.startsWith(mediaPrefix)) {
+      const transferId = topic.slice(mediaPrefix.length);
+      openMediaChunk(payload, this.sealKey)
+        .then(({ index, bytes }) => {
+          if (this.roomId === roomId) this.emit('mediaChunk', transferId, index, bytes);
+        })
+        .catch(err => this.emit('roomError', err));
+      return;
+    }
+
+    const raw = new TextDecoder().decode(payload);
+    if (topic === this.topics.health(this.fingerprint)) {
+      if (this.pendingProbe && raw === this.pendingProbe.id) {
+        const latencyMs = Math.round(performance.now() - this.pendingProbe.sentAt);
+        this.pendingProbe = null;
+        this.emit('health', { url: this.brokerUrl, latencyMs, checkedAt: Date.now() });
+      }
+      return;
+    }
+
+    if (roomId && topic === this.topics.room(roomId)) {
+      openRoomPayload(raw, this.sealKey)
+        .then(data => {
+          // The room may have changed while the payload was being decrypted.
+          if (this.roomId !== roomId) return;
+          const event = parseRoomEvent(data);
+          if (event) this.emit('room', event);
+          else console.warn("Dropped malformed room event", data);
+        })
+        .catch(err => this.emit('roomError', err));
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (e) {
+      console.error("Payload parsing error", e);
+      return;
+    }
+
+    if (topic === this.topics.discovery) {
+      const zone = parseZoneBeacon(data);
+      if (zone) this.emit('discovery', zone);
+    } else if (topic === this.topics.discoveryRequest) {
+      const req = parseDiscoveryRequest(data);
+      if (req && req.sender !== this.fingerprint) this.emit('discoveryRequest', req.sender);
+    } else {
+      const zoneId = [...this.authZones].find(id => this.topics.auth(id) === topic);
+      const event = parseAuthEvent(data);
+      if (zoneId && event) this.emit('auth', zoneId, event);
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import { LeaveReason, MediaDescriptor, MediaPolicy, Message, MessageReference, MediaType, ModerationAction, ReactionRecord, RoomType, Zone } from '../types';
+import { isValidGeocell } from '../utils/location';
+import { HISTORY_PAGE_SIZE, HISTORY_WINDOW_SIZE, MAX_HANDLE_LENGTH, MAX_REACTIONS_PER_MESSAGE, MAX_TRANSCRIPT_LENGTH, MAX_ZONE_RADIUS_KM, RADIUS_KM } from '../constants';
+
+/**
+ * Wire protocol for Locus rooms: topic layout, the event unions carried on each topic,
+ * and runtime validation for everything that arrives from the broker.
+ */
+
+/**
+ * Topic layout under a deployment's prefix (e.g. `locuschat/v2`).
+ */
+export const buildTopics = (prefix: string) => ({
+  discovery: `${prefix}/discovery`,
+  discoveryRequest: `${prefix}/discovery/req`,
+  room: (zoneId: string) => `${prefix}/rooms/${zoneId}`,
+  auth: (zoneId: string) => `${prefix}/rooms/${zoneId}/auth`,
+  media: (zoneId: string, transferId: string) => `${prefix}/rooms/${zoneId}/media/${transferId}`,
+  mediaAll: (zoneId: string) => `${prefix}/rooms/${zoneId}/media/+`,
+  health: (fingerprint: string) => `${prefix}/health/${fingerprint}`,
+});
+
+export type Topics = ReturnType<typeof buildTopics>;
+
+// --- Room topic events (sealed with the zone key in private zones) ---
+
+export interface RoomMessageEvent { type: 'message'; payload: Message; }
+export interface TypingEvent { type: 'typing'; sender: string; senderId: string; }
+/** Toggles one member's reaction on a message; the record is signed by that member. */
+export interface ReactionEvent { type: 'reaction'; reaction: ReactionRecord; }
+/** Asks the uploader to resend chunks that never arrived or failed their checksum. */
+export interface MediaRequestEvent { type: 'media_req'; transferId: string; missing: number[]; sender: string; }
+/** Fields every host-only control event carries; `sig` is the host's ECDSA signature over the rest. */
+export interface SignedControl { zoneId: string; issuedAt: number; sig: string; }
+/** A control event signed by the member it concerns; `senderKey` must hash to that member's fingerprint. */
+export interface MemberSigned extends SignedControl { senderKey: string; }
+/** Tells the senders of `messageIds` that `senderId` has seen them; signed by that member. */
+export interface ReceiptEvent extends MemberSigned { type: 'receipt'; senderId: string; messageIds: string[]; }
+
+export interface PresenceEvent extends MemberSigned { type: 'presence'; sender: string; username: string; color: string; }
+export interface LeaveEvent extends MemberSigned { type: 'leave'; sender: string; reason: LeaveReason; }
+
+export interface CountSyncEvent extends SignedControl { type: 'count_sync'; count: number; }
+/**
+ * Asks for one page of history. `known` lists ids the requester already holds; they are skipped,
+ * so repeating the request with the ids of the last page fetches the next older one.
+ */
+export interface HistoryRequestEvent { type: 'history_req'; sender: string; requestId: string; known: string[]; }
+/**
+ * One page of history, oldest first; `more` is set when older messages remain in the window.
+ * Bans and active mutes travel with the first page so latecomers enforce them too.
+ */
+export interface HistoryResponseEvent { type: 'history_res'; target: string; requestId: string; payload: Message[]; moderation: ModerationEvent[]; more: boolean; }
+export interface RoomDeleteEvent extends SignedControl { type: 'room_delete'; }
+/**
+ * Announces that `hostId` took over after `previousHostId` dropped out. Signed with the new
+ * host's own key (`hostKey`), since the previous host's key left with it.
+ */
+export interface HostHandoverEvent extends SignedControl { type: 'host_handover'; previousHostId: string; hostId: string; hostKey: string; }
+/** Moves the zone's expiry later; receivers bound it by the maximum lifetime. */
+export interface SessionExtendEvent extends SignedControl { type: 'session_extend'; expiresAt: number; }
+/** Points members at a fresh zone at the same location; signed with the old zone's host key. */
+export interface ZoneRestartEvent extends SignedControl { type: 'zone_restart'; successor: Zone; }
+/** `until` is set for mutes only. */
+export interface ModerationEvent extends SignedControl { type: 'moderation'; action: ModerationAction; target: string; until?: number; }
+
+export type RoomEvent =
+  | RoomMessageEvent
+  | TypingEvent
+  | ReactionEvent
+  | MediaRequestEvent
+  | ReceiptEvent
+  | PresenceEvent
+  | LeaveEvent
+  | CountSyncEvent
+  | HistoryRequestEvent
+  | HistoryResponseEvent
+  | RoomDeleteEvent
+  | ModerationEvent
+  | HostHandoverEvent
+  | SessionExtendEvent
+  | ZoneRestartEvent;
+
+// --- Auth topic events (plain JSON, private zones only) ---
+
+export interface AuthChallengeEvent { type: 'auth_challenge'; sender: string; nonce: string; }
+export interface AuthResponseEvent { type: 'auth_response'; target: string; nonce: string; proof: string; }
+
+export type AuthEvent = AuthChallengeEvent | AuthResponseEvent;
+
+// --- Discovery request topic ---
+
+export interface DiscoveryRequestEvent { type: 'sync_req'; sender: string; }
+
+// --- Validation ---
+
+const MEDIA_TYPES: MediaType[] = ['text', 'image', 'video', 'audio'];
+const ROOM_TYPES: RoomType[] = ['public', 'private'];
+const MODERATION_ACTIONS: ModerationAction[] = ['kick', 'mute', 'ban'];
+const LEAVE_REASONS: LeaveReason[] = ['exit', 'radius'];
+const MEDIA_POLICIES: MediaPolicy[] = ['text', 'images', 'all'];
+export const MAX_RECEIPT_IDS = 100;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOptional = <T>(v: unknown, guard: (x: unknown) => x is T): v is T | undefined => v === undefined || guard(v);
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean';
+const isOneOf = <T extends string>(options: readonly T[], v: unknown): v is T => options.includes(v as T);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+
+const isSignedControl = (v: Record<string, unknown>): v is Record<string, unknown> & SignedControl =>
+  isString(v.zoneId) && isNumber(v.issuedAt) && isString(v.sig);
+
+const isMemberSigned = (v: Record<string, unknown>): v is Record<string, unknown> & MemberSigned =>
+  isSignedControl(v) && isString(v.senderKey);
+
+const memberSignature = ({ zoneId, issuedAt, senderKey, sig }: MemberSigned): MemberSigned => ({ zoneId, issuedAt, senderKey, sig });
+
+const isHandle = (v: unknown): v is string => isString(v) && v.length <= MAX_HANDLE_LENGTH;
+
+const isMessageReference = (v: unknown): v is MessageReference =>
+  isRecord(v) && isString(v.id) && isHandle(v.sender) && isString(v.preview);
+
+const isReactionRecord = (v: unknown): v is ReactionRecord =>
+  isRecord(v) && isMemberSigned(v) &&
+  isString(v.messageId) && isString(v.emoji) && isString(v.senderId) && isBoolean(v.active);
+
+const isReactionList = (v: unknown): v is ReactionRecord[] =>
+  Array.isArray(v) && v.length <= MAX_REACTIONS_PER_MESSAGE && v.every(isReactionRecord);
+
+const isMediaDescriptor = (v: unknown): v is MediaDescriptor =>
+  isRecord(v) &&
+  isString(v.transferId) && /^[\w-]+$/.test(v.transferId) &&
+  isString(v.mimeType) &&
+  isNumber(v.size) && v.size >= 0 &&
+  isNumber(v.chunkSize) && v.chunkSize > 0 &&
+  isStringArray(v.checksums) &&
+  v.checksums.length === Math.ceil(v.size / v.chunkSize);
+
+/**
+ * Validates a chat message from the wire. System notices are only ever created locally,
+ * so a message claiming to be one is forged and rejected.
+ */
+export const isMessage = (v: unknown): v is Message =>
+  isRecord(v) &&
+  v.isSystem === undefined &&
+  isString(v.id) &&
+  isHandle(v.sender) &&
+  isString(v.senderId) &&
+  isString(v.zoneId) &&
+  isNumber(v.timestamp) &&
+  isOneOf(MEDIA_TYPES, v.type) &&
+  isOptional(v.text, isString) &&
+  isOptional(v.media, isMediaDescriptor) &&
+  isOptional(v.replyTo, isMessageReference) &&
+  isOptional(v.reactions, isReactionList) &&
+  isOptional(v.senderKey, isString) &&
+  isOptional(v.sig, isString) &&
+  isOptional(v.transcript, (t): t is string => isString(t) && t.length <= MAX_TRANSCRIPT_LENGTH);
+
+const parseModerationEvent = (v: unknown): ModerationEvent | null => {
+  if (!isRecord(v) || v.type !== 'moderation' || !isSignedControl(v)) return null;
+  if (!isOneOf(MODERATION_ACTIONS, v.action) || !isString(v.target) || !isOptional(v.until, isNumber)) return null;
+  if (v.action === 'mute' && v.until === undefined) return null;
+  const event: ModerationEvent = { type: 'moderation', action: v.action, target: v.target, zoneId: v.zoneId, issuedAt: v.issuedAt, sig: v.sig };
+  if (v.until !== undefined) event.until = v.until;
+  return event;
+};
+
+/**
+ * Validates a decoded room payload. Returns null for anything malformed or unknown,
+ * so a single bad peer cannot crash the room handler.
+ */
+export const parseRoomEvent = (data: unknown): RoomEvent | null => {
+  if (!isRecord(data)) return null;
+  switch (data.type) {
+    case 'message':
+      return isMessage(data.payload) ? { type: 'message', payload: data.payload } : null;
+    case 'typing':
+      return isString(data.sender) && isString(data.senderId) ? { type: 'typing', sender: data.sender, senderId: data.senderId } : null;
+    case 'reaction': {
+      const r = data.reaction;
+      return isReactionRecord(r)
+        ? { type: 'reaction', reaction: { messageId: r.messageId, emoji: r.emoji, senderId: r.senderId, active: r.active, ...memberSignature(r) } }
+        : null;
+    }
+    case 'media_req':
+      return isString(data.transferId) && isString(data.sender) && Array.isArray(data.missing) && data.missing.every(isNumber)
+        ? { type: 'media_req', transferId: data.transferId, missing: data.missing, sender: data.sender }
+        : null;
+    case 'receipt':
+      return isMemberSigned(data) && isString(data.senderId) && isStringArray(data.messageIds) && data.messageIds.length <= MAX_RECEIPT_IDS
+        ? { type: 'receipt', senderId: data.senderId, messageIds: data.messageIds, ...memberSignature(data) }
+        : null;
+    case 'presence':
+      return isMemberSigned(data) && isString(data.sender) && isString(data.color) &&
+        isString(data.username) && data.username.trim().length > 0 && data.username.length <= MAX_HANDLE_LENGTH
+        ? { type: 'presence', sender: data.sender, username: data.username, color: data.color, ...memberSignature(data) }
+        : null;
+    case 'leave':
+      return isMemberSigned(data) && isString(data.sender) && isOneOf(LEAVE_REASONS, data.reason)
+        ? { type: 'leave', sender: data.sender, reason: data.reason, ...memberSignature(data) }
+        : null;
+    case 'history_req':
+      if (!isString(data.sender) || !isString(data.requestId)) return null;
+      if (!isStringArray(data.known) || data.known.length > HISTORY_WINDOW_SIZE) return null;
+      return { type: 'history_req', sender: data.sender, requestId: data.requestId, known: data.known };
+    case 'count_sync':
+      return isNumber(data.count) && isSignedControl(data)
+        ? { type: 'count_sync', count: data.count, zoneId: data.zoneId, issuedAt: data.issuedAt, sig: data.sig }
+        : null;
+    case 'history_res': {
+      if (!isString(data.target) || !isString(data.requestId) || !isBoolean(data.more)) return null;
+      if (!Array.isArray(data.payload) || data.payload.length > HISTORY_PAGE_SIZE || !data.payload.every(isMessage)) return null;
+      if (!Array.isArray(data.moderation)) return null;
+      const moderation = data.moderation.map(parseModerationEvent);
+      if (moderation.some(e => e === null)) return null;
+      return {
+        type: 'history_res', target: data.target, requestId: data.requestId,
+        payload: data.payload, moderation: moderation as ModerationEvent[], more: data.more,
+      };
+    }
+    case 'room_delete':
+      return isSignedControl(data)
+        ? { type: 'room_delete', zoneId: data.zoneId, issuedAt: data.issuedAt, sig: data.sig }
+        : null;
+    case 'moderation':
+      return parseModerationEvent(data);
+    case 'session_extend':
+      return isSignedControl(data) && isNumber(data.expiresAt)
+        ? { type: 'session_extend', expiresAt: data.expiresAt, zoneId: data.zoneId, issuedAt: data.issuedAt, sig: data.sig }
+        : null;
+    case 'zone_restart': {
+      const successor = parseZoneBeacon(data.successor);
+      return isSignedControl(data) && successor
+        ? { type: 'zone_restart', successor, zoneId: data.zoneId, issuedAt: data.issuedAt, sig: data.sig }
+        : null;
+    }
+    case 'host_handover':
+      return isSignedControl(data) && isString(data.previousHostId) && isString(data.hostId) && isString(data.hostKey)
+        ? { type: 'host_handover', previousHostId: data.previousHostId, hostId: data.hostId, hostKey: data.hostKey, zoneId: data.zoneId, issuedAt: data.issuedAt, sig: data.sig }
+        : null;
+    default:
+      return null;
+  }
+};
+
+export const parseAuthEvent = (data: unknown): AuthEvent | null => {
+  if (!isRecord(data) || !isString(data.nonce)) return null;
+  if (data.type === 'auth_challenge' && isString(data.sender)) {
+    return { type: 'auth_challenge', sender: data.sender, nonce: data.nonce };
+  }
+  if (data.type === 'auth_response' && isString(data.target) && isString(data.proof)) {
+    return { type: 'auth_response', target: data.target, nonce: data.nonce, proof: data.proof };
+  }
+  return null;
+};
+
+export const parseDiscoveryRequest = (data: unknown): DiscoveryRequestEvent | null =>
+  isRecord(data) && data.type === 'sync_req' && isString(data.sender) ? { type: 'sync_req', sender: data.sender } : null;
+
+/**
+ * Validates a discovery pulse. Pulses without a geocell come from clients that
+ * still publish precise coordinates and are dropped. Zone settings missing from
+ * older clients fall back to the defaults.
+ */
+export const parseZoneBeacon = (data: unknown): Zone | null => {
+  if (!isRecord(data)) return null;
+  if (!isString(data.id) || !isString(data.name) || !isOneOf(ROOM_TYPES, data.type) || !isString(data.hostId)) return null;
+  if (!isString(data.geocell) || !isValidGeocell(data.geocell)) return null;
+  if (!isNumber(data.createdAt) || !isNumber(data.expiresAt) || !isNumber(data.userCount)) return null;
+  if (!isString(data.hostKey)) return null;
+  return {
+    id: data.id,
+    name: data.name,
+    type: data.type,
+    hostId: data.hostId,
+    geocell: data.geocell,
+    createdAt: data.createdAt,
+    expiresAt: data.expiresAt,
+    userCount: data.userCount,
+    hostKey: data.hostKey,
+    radiusKm: isNumber(data.radiusKm) && data.radiusKm > 0 && data.radiusKm <= MAX_ZONE_RADIUS_KM ? data.radiusKm : RADIUS_KM,
+    memberCap: isNumber(data.memberCap) && data.memberCap > 0 ? data.memberCap : null,
+    mediaPolicy: isOneOf(MEDIA_POLICIES, data.mediaPolicy) ? data.mediaPolicy : 'all',
+  };
+};
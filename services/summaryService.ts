@@ -0,0 +1,38 @@
+import { Message, ZoneSummary } from '../types';
+import { SUMMARY_MAX_POINTS, SUMMARY_MAX_QUESTIONS, SUMMARY_MESSAGE_COUNT } from '../constants';
+import { findOpenQuestions, summarizeExtractively, toSummaryLine } from '../utils/summary';
+import { isGeminiConfigured, summarizeConversation } from './geminiService';
+
+/**
+ * Builds a "catch me up" digest of the latest messages. Gemini writes it when the proxy is
+ * configured and reachable and `allowRemote` is set; otherwise the deterministic extractive
+ * summary is used, so private zones stay on the device until the user consents.
+ */
+export const summarizeZone = async (messages: Message[], allowRemote: boolean): Promise<ZoneSummary> => {
+  const lines = messages
+    .filter(m => !m.isSystem)
+    .slice(-SUMMARY_MESSAGE_COUNT)
+    .map(toSummaryLine)
+    .filter(line => line.text);
+
+  if (allowRemote && isGeminiConfigured() && lines.length > 0) {
+    try {
+      const { points, openQuestions } = await summarizeConversation(lines);
+      return {
+        points: points.slice(0, SUMMARY_MAX_POINTS),
+        openQuestions: openQuestions.slice(0, SUMMARY_MAX_QUESTIONS),
+        source: 'gemini',
+        messageCount: lines.length,
+      };
+    } catch (err) {
+      console.warn("Gemini summary unavailable; using the offline summary", err);
+    }
+  }
+
+  return {
+    points: summarizeExtractively(lines, SUMMARY_MAX_POINTS),
+    openQuestions: findOpenQuestions(lines, SUMMARY_MAX_QUESTIONS),
+    source: 'offline',
+    messageCount: lines.length,
+  };
+};
@@ -0,0 +1,41 @@
+import { MAX_TRANSCRIPT_LENGTH } from '../constants';
+import { isGeminiConfigured, transcribeAudio } from './geminiService';
+
+/**
+ * Turns a voice note into text. Gemini through the proxy is built in; a local speech engine
+ * (e.g. a WASM Whisper build) can be plugged in with `setTranscriber`.
+ */
+export interface TranscriptionProvider {
+  name: string;
+  /** Whether audio leaves the device; private zones ask for consent before using such a provider. */
+  remote: boolean;
+  transcribe(audio: Blob, languageHint?: string): Promise<string>;
+}
+
+export const geminiTranscriber: TranscriptionProvider = {
+  name: 'gemini',
+  remote: true,
+  transcribe: transcribeAudio,
+};
+
+let custom: TranscriptionProvider | null | undefined;
+
+/** Replaces the default provider; `null` turns transcription off. */
+export const setTranscriber = (provider: TranscriptionProvider | null) => {
+  custom = provider;
+};
+
+/** The active provider, or null when nothing can transcribe. */
+export const getTranscriber = (): TranscriptionProvider | null => {
+  if (custom !== undefined) return custom;
+  return isGeminiConfigured() ? geminiTranscriber : null;
+};
+
+/**
+ * Transcribes with the active provider and trims the result to what a message may carry.
+ */
+export const transcribe = async (audio: Blob, languageHint?: string): Promise<string> => {
+  const provider = getTranscriber();
+  if (!provider) throw new Error("No transcription provider is configured.");
+  return (await provider.transcribe(audio, languageHint)).trim().slice(0, MAX_TRANSCRIPT_LENGTH);
+};
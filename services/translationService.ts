@@ -0,0 +1,39 @@
+import { baseLanguage, detectLanguage } from '../utils/language';
+import { isGeminiConfigured, translateText } from './geminiService';
+
+/**
+ * Pluggable translation backend. `translate` returns the text in `target` together with the
+ * language it came from; an unchanged text means no translation was needed or possible.
+ */
+export interface Translator {
+  name: string;
+  /** Whether text leaves the device; private zones ask for consent before using such a translator. */
+  remote: boolean;
+  translate(text: string, target: string): Promise<{ text: string; sourceLanguage: string }>;
+}
+
+/** Gemini through the proxy. */
+export const geminiTranslator: Translator = {
+  name: 'gemini',
+  remote: true,
+  translate: translateText,
+};
+
+/** Offline stand-in: only detects the language and passes the text through. */
+export const noopTranslator: Translator = {
+  name: 'none',
+  remote: false,
+  translate: async (text) => ({ text, sourceLanguage: detectLanguage(text) || 'und' }),
+};
+
+export const getTranslator = (): Translator => isGeminiConfigured() ? geminiTranslator : noopTranslator;
+
+/**
+ * Whether a message should be sent to the translator at all. Only text the local detector
+ * recognizes as another language than the target qualifies; undetectable text stays on the device.
+ */
+export const needsTranslation = (text: string, target: string): boolean => {
+  if (!text.trim()) return false;
+  const detected = detectLanguage(text);
+  return detected !== null && baseLanguage(detected) !== baseLanguage(target);
+};
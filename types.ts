@@ -1,15 +1,85 @@
 
 export type MediaType = 'text' | 'image' | 'video' | 'audio';
 export type RoomType = 'public' | 'private';
+export type ConnectionStatus = 'connected' | 'reconnecting' | 'offline';
+
+export interface BrokerHealth {
+  url: string;
+  latencyMs: number | null; // null when the last echo probe went unanswered
+  checkedAt: number;
+}
+
+/**
+ * Snapshot of the message being replied to, so the quote still renders if the original
+ * is missing from this client's buffer.
+ */
+export interface MessageReference {
+  id: string;
+  sender: string;
+  preview: string;
+}
+
+/**
+ * Describes an attachment sent as numbered chunks on its own subtopic.
+ */
+export interface MediaDescriptor {
+  transferId: string;
+  mimeType: string;
+  size: number; // Bytes
+  chunkSize: number;
+  checksums: string[]; // SHA-256 (base64) per chunk, in order
+}
+
+/**
+ * Local progress of one attachment; `url` is an object URL once the bytes are complete.
+ */
+export interface MediaTransferState {
+  status: 'sending' | 'receiving' | 'complete' | 'failed';
+  done: number; // Chunks sent or received
+  total: number;
+  url?: string;
+}
+
+/**
+ * One member's latest toggle of one emoji on a message, signed with that member's session key so
+ * it can travel through history. Withdrawn reactions stay as `active: false`, so an older toggle
+ * relayed later cannot bring them back.
+ */
+export interface ReactionRecord {
+  messageId: string;
+  emoji: string;
+  senderId: string;
+  active: boolean;
+  zoneId: string;
+  issuedAt: number;
+  senderKey: string;
+  sig: string;
+}
 
 export interface Message {
   id: string;
   sender: string;
+  senderId: string; // Fingerprint of the sending session; moderation targets this, not the handle
+  zoneId?: string; // Zone the message was signed for, so it cannot be replayed elsewhere; absent on local system notices
+  senderKey?: string; // Sending session's public key; senderId is its hash
+  sig?: string; // Sender's signature over every field except reactions; absent on local system notices
   text?: string;
   timestamp: number;
   isSystem?: boolean;
   type: MediaType;
-  mediaData?: string; 
+  media?: MediaDescriptor;
+  replyTo?: MessageReference;
+  reactions?: ReactionRecord[]; // Newest signed toggle per emoji and member
+  transcript?: string; // Sender-side caption of a voice note; signed with the rest of the message
+}
+
+/**
+ * Local delivery state of one of our own messages. `seenBy` holds the fingerprints of members
+ * whose read receipts arrived; it stays on the sender's device only.
+ */
+export interface MessageDelivery {
+  status: 'sending' | 'sent';
+  seenBy: string[];
 }
 
 export interface User {
@@ -17,19 +87,81 @@ export interface User {
   color: string;
 }
 
+/** Which attachments a zone accepts. Text is always allowed. */
+export type MediaPolicy = 'text' | 'images' | 'all';
+
 export interface Zone {
   id: string;
   name: string;
   type: RoomType;
   hostId: string; // Fingerprint of the creator
-  passwordHash?: string;
-  center: {
-    lat: number;
-    lng: number;
-  };
+  geocell: string; // Coarse geohash of the zone center; empty when unknown (e.g. deep links)
+  hostKey?: string; // Host's ECDSA P-256 public key (base64 raw); verifies host-only control events
   createdAt: number;
   expiresAt: number;
   userCount: number;
+  radiusKm: number; // Chosen by the host; drives discovery reach and the geofence
+  memberCap: number | null; // Null when the zone takes any number of members
+  mediaPolicy: MediaPolicy;
+}
+
+/** What the host picks in the create flow; lifetime becomes the zone's initial expiry. */
+export interface ZoneSettings {
+  radiusKm: number;
+  lifetimeMs: number;
+  memberCap: number | null;
+  mediaPolicy: MediaPolicy;
+}
+
+/**
+ * A member as seen through the presence stream. Every client keeps its own roster.
+ */
+export interface RosterEntry {
+  id: string; // Session fingerprint
+  username: string;
+  color: string;
+  joinedAt: number;
+  lastSeen: number;
+}
+
+export type LeaveReason = 'exit' | 'radius';
+
+export type ModerationAction = 'kick' | 'mute' | 'ban';
+
+/**
+ * Host sanctions currently in force for the zone, keyed by fingerprint.
+ */
+export interface ModerationState {
+  banned: string[];
+  mutedUntil: Record<string, number>;
+}
+
+/**
+ * Outcome of content moderation. `reason` is shown to the user when content is blocked or blurred.
+ */
+export interface ModerationResult {
+  safe: boolean;
+  reason?: string;
+}
+
+/**
+ * "Catch me up" digest of recent messages. `source` tells whether Gemini or the offline fallback wrote it.
+ */
+export interface ZoneSummary {
+  points: string[];
+  openQuestions: string[];
+  source: 'gemini' | 'offline';
+  messageCount: number;
+}
+
+/**
+ * Translation of one incoming message into the reader's language, cached by `Message.id`.
+ */
+export interface MessageTranslation {
+  status: 'pending' | 'done' | 'failed';
+  target: string;
+  text?: string;
+  sourceLanguage?: string;
 }
 
 export interface AppState {
@@ -38,9 +170,12 @@ export interface AppState {
   isHost: boolean;
   messages: Message[];
   isInRange: boolean;
+  rangeBreachSince: number | null; // When the user was first seen outside the zone radius
   distance: number | null;
   timeLeft: number;
   typingUsers: Record<string, number>;
+  moderation: ModerationState;
+  roster: Record<string, RosterEntry>;
   availableRooms: Zone[];
   userFingerprint: string; // Random ID generated per browser session
 }
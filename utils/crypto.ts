@@ -0,0 +1,312 @@
+import { WIRE_VERSION, KEY_DERIVATION_ITERATIONS } from '../constants';
+import { Message } from '../types';
+
+/**
+ * Raised when a room payload cannot be opened with the local zone key
+ * (wrong access key, or an encrypted payload arriving in a keyless session).
+ */
+export class RoomKeyError extends Error {
+  constructor(message = 'Room payload could not be decrypted with the local access key.') {
+    super(message);
+    this.name = 'RoomKeyError';
+  }
+}
+
+/**
+ * Raised when a room payload was produced by an incompatible protocol version.
+ */
+export class WireVersionError extends Error {
+  constructor(public readonly version: unknown) {
+    super(`Unsupported wire version: ${String(version)}`);
+    this.name = 'WireVersionError';
+  }
+}
+
+interface PlainEnvelope {
+  v: number;
+  body: unknown;
+}
+
+interface SealedEnvelope {
+  v: number;
+  enc: 'AES-GCM';
+  iv: string;
+  ct: string;
+}
+
+type WireEnvelope = PlainEnvelope | SealedEnvelope;
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode for large media payloads.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (b64: string): Uint8Array => {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export interface ZoneKeys {
+  /** AES-GCM key sealing every room event. */
+  seal: CryptoKey;
+  /** HMAC key answering join challenges. */
+  proof: CryptoKey;
+}
+
+/**
+ * Derives the key set for a private zone from its access password.
+ * The zone ID acts as the PBKDF2 salt, so the same password yields unrelated keys in different zones;
+ * HKDF then splits the master secret into independent sealing and proof keys.
+ * Keys are non-extractable and only ever live in this tab's memory.
+ */
+export const deriveZoneKeys = async (password: string, zoneId: string): Promise<ZoneKeys> => {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const masterBits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: encoder.encode(`locus-e2e:${zoneId}`), iterations: KEY_DERIVATION_ITERATIONS, hash: 'SHA-256' },
+    material,
+    256
+  );
+  const master = await crypto.subtle.importKey('raw', masterBits, 'HKDF', false, ['deriveKey']);
+  const hkdf = (info: string) => ({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode(info) });
+
+  const [seal, proof] = await Promise.all([
+    crypto.subtle.deriveKey(hkdf('locus-seal'), master, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.deriveKey(hkdf('locus-proof'), master, { name: 'HMAC', hash: 'SHA-256', length: 256 }, false, ['sign', 'verify']),
+  ]);
+  return { seal, proof };
+};
+
+export const randomToken = (byteLength = 16): string =>
+  bytesToBase64(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+/**
+ * Answers a join challenge: HMAC of the nonce under the zone proof key.
+ */
+export const signChallenge = async (proofKey: CryptoKey, nonce: string): Promise<string> => {
+  const signature = await crypto.subtle.sign('HMAC', proofKey, new TextEncoder().encode(nonce));
+  return bytesToBase64(new Uint8Array(signature));
+};
+
+export const verifyChallenge = async (proofKey: CryptoKey, nonce: string, proof: string): Promise<boolean> => {
+  try {
+    return await crypto.subtle.verify('HMAC', proofKey, base64ToBytes(proof), new TextEncoder().encode(nonce));
+  } catch {
+    return false;
+  }
+};
+
+const HOST_KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const HOST_SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Generates the per-zone host signing keypair. The private half is non-extractable and
+ * never leaves the creating tab; the public half is embedded in the Zone.
+ */
+export const generateHostKeyPair = async (): Promise<{ privateKey: CryptoKey; publicKey: string }> => {
+  const pair = await crypto.subtle.generateKey(HOST_KEY_ALGORITHM, false, ['sign', 'verify']);
+  const raw = await crypto.subtle.exportKey('raw', pair.publicKey);
+  return { privateKey: pair.privateKey, publicKey: bytesToBase64(new Uint8Array(raw)) };
+};
+
+export const importHostPublicKey = (publicKey: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', base64ToBytes(publicKey), HOST_KEY_ALGORITHM, false, ['verify']);
+
+/**
+ * Stable JSON encoding with sorted keys, so signer and verifier hash identical bytes.
+ */
+const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${canonicalize((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Signs every field of a control event except `sig` itself.
+ */
+export const signControl = async <T extends object>(privateKey: CryptoKey, fields: T): Promise<T & { sig: string }> => {
+  const data = new TextEncoder().encode(canonicalize(fields));
+  const signature = await crypto.subtle.sign(HOST_SIGN_ALGORITHM, privateKey, data);
+  return { ...fields, sig: bytesToBase64(new Uint8Array(signature)) };
+};
+
+export const verifyControl = async (publicKey: CryptoKey, event: { sig: string }): Promise<boolean> => {
+  const { sig, ...fields } = event;
+  try {
+    return await crypto.subtle.verify(HOST_SIGN_ALGORITHM, publicKey, base64ToBytes(sig), new TextEncoder().encode(canonicalize(fields)));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Per-session identity. The fingerprint other members see is derived from the public key,
+ * so a fingerprint cannot be claimed without the matching private key.
+ */
+export interface SessionIdentity {
+  fingerprint: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * Fingerprint of a session public key: the first 8 bytes of its SHA-256, hex encoded.
+ */
+export const fingerprintOf = async (publicKey: string): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', base64ToBytes(publicKey)));
+  return Array.from(digest.slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Creates the identity for this tab. It uses the same key type as host keys and is never persisted.
+ */
+export const createSessionIdentity = async (): Promise<SessionIdentity> => {
+  const { privateKey, publicKey } = await generateHostKeyPair();
+  return { fingerprint: await fingerprintOf(publicKey), publicKey, privateKey };
+};
+
+/**
+ * Signs a chat message. Reactions change after sending, so they are left out of the signature.
+ */
+export const signMessage = async <T extends Message>(identity: SessionIdentity, msg: T): Promise<T> => {
+  const { reactions, sig, ...fields } = msg;
+  return { ...(await signControl(identity.privateKey, { ...fields, senderKey: identity.publicKey })), reactions } as T;
+};
+
+/**
+ * Signs a member event (presence, leave, reactions) with the session identity. The public key
+ * travels along so receivers can check it against the fingerprint the event claims.
+ */
+export const signAsMember = <T extends object>(identity: SessionIdentity, fields: T): Promise<T & { senderKey: string; sig: string }> =>
+  signControl(identity.privateKey, { ...fields, senderKey: identity.publicKey });
+
+const memberKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * A member-signed payload is authentic if its sender key hashes to `senderId` and the signature verifies under it.
+ */
+export const verifyMemberSignature = async (signed: { senderKey?: string; sig?: string }, senderId: string): Promise<boolean> => {
+  if (!signed.senderKey || !signed.sig) return false;
+  try {
+    if (await fingerprintOf(signed.senderKey) !== senderId) return false;
+    if (!memberKeys.has(signed.senderKey)) memberKeys.set(signed.senderKey, importHostPublicKey(signed.senderKey));
+    return await verifyControl(await memberKeys.get(signed.senderKey)!, signed as { sig: string });
+  } catch {
+    memberKeys.delete(signed.senderKey);
+    return false;
+  }
+};
+
+export const verifyMessage = (msg: Message): Promise<boolean> => {
+  const { reactions, ...signed } = msg;
+  return verifyMemberSignature(signed, signed.senderId);
+};
+
+/**
+ * Serializes a room event for the wire. With a key the event is sealed with AES-GCM,
+ * otherwise (public zones) it is wrapped as-is. Both forms carry the wire version.
+ */
+export const sealRoomPayload = async (event: unknown, key: CryptoKey | null): Promise<string> => {
+  if (!key) {
+    return JSON.stringify({ v: WIRE_VERSION, body: event } satisfies PlainEnvelope);
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(event));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  const envelope: SealedEnvelope = {
+    v: WIRE_VERSION,
+    enc: 'AES-GCM',
+    iv: bytesToBase64(iv),
+    ct: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(envelope);
+};
+
+/**
+ * Parses and, if sealed, decrypts a room payload.
+ * Throws WireVersionError for foreign protocol versions and RoomKeyError when the key does not fit.
+ */
+export const openRoomPayload = async (raw: string, key: CryptoKey | null): Promise<unknown> => {
+  const envelope = JSON.parse(raw) as WireEnvelope;
+  if (!envelope || envelope.v !== WIRE_VERSION) {
+    throw new WireVersionError(envelope?.v);
+  }
+  if (!('enc' in envelope)) {
+    if (key) throw new RoomKeyError('Unencrypted payload received in a private zone.');
+    return envelope.body;
+  }
+  if (!key) throw new RoomKeyError('Encrypted payload received without an access key.');
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) },
+      key,
+      base64ToBytes(envelope.ct)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    throw new RoomKeyError();
+  }
+};
+
+const CHUNK_HEADER_BYTES = 2; // [wire version, 1 if sealed]
+const CHUNK_IV_BYTES = 12;
+
+/**
+ * Binary frame for one media chunk: a two-byte header followed by the chunk index (uint32, big endian)
+ * and the chunk bytes. With a key, everything after the header is AES-GCM sealed behind a fresh IV.
+ */
+export const sealMediaChunk = async (index: number, bytes: Uint8Array, key: CryptoKey | null): Promise<Uint8Array> => {
+  const body = new Uint8Array(4 + bytes.length);
+  new DataView(body.buffer).setUint32(0, index);
+  body.set(bytes, 4);
+  if (!key) {
+    const frame = new Uint8Array(CHUNK_HEADER_BYTES + body.length);
+    frame.set([WIRE_VERSION, 0]);
+    frame.set(body, CHUNK_HEADER_BYTES);
+    return frame;
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(CHUNK_IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, body));
+  const frame = new Uint8Array(CHUNK_HEADER_BYTES + CHUNK_IV_BYTES + ciphertext.length);
+  frame.set([WIRE_VERSION, 1]);
+  frame.set(iv, CHUNK_HEADER_BYTES);
+  frame.set(ciphertext, CHUNK_HEADER_BYTES + CHUNK_IV_BYTES);
+  return frame;
+};
+
+/**
+ * Inverse of sealMediaChunk. Throws the same errors as openRoomPayload.
+ */
+export const openMediaChunk = async (frame: Uint8Array, key: CryptoKey | null): Promise<{ index: number; bytes: Uint8Array }> => {
+  if (frame.length < CHUNK_HEADER_BYTES || frame[0] !== WIRE_VERSION) throw new WireVersionError(frame[0]);
+  let body: Uint8Array;
+  if (frame[1] === 0) {
+    if (key) throw new RoomKeyError('Unencrypted media chunk received in a private zone.');
+    body = frame.subarray(CHUNK_HEADER_BYTES);
+  } else {
+    if (!key) throw new RoomKeyError('Encrypted media chunk received without an access key.');
+    try {
+      const iv = frame.subarray(CHUNK_HEADER_BYTES, CHUNK_HEADER_BYTES + CHUNK_IV_BYTES);
+      body = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, frame.subarray(CHUNK_HEADER_BYTES + CHUNK_IV_BYTES)));
+    } catch {
+      throw new RoomKeyError();
+    }
+  }
+  if (body.length < 4) throw new Error('Truncated media chunk.');
+  return { index: new DataView(body.buffer, body.byteOffset).getUint32(0), bytes: body.subarray(4) };
+};
+
+export const sha256Base64 = async (bytes: Uint8Array): Promise<string> =>
+  bytesToBase64(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)));
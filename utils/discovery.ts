@@ -0,0 +1,36 @@
+import { Zone, RoomType } from '../types';
+import { distanceToGeocell } from './location';
+
+export type ZoneSort = 'distance' | 'members' | 'timeLeft' | 'newest';
+
+export interface ZoneFilter {
+  query: string;
+  type: RoomType | 'all';
+  hasRoom: boolean; // Hide zones that reached their member cap
+}
+
+/**
+ * Applies the discovery list's search, filters and sort. Ties fall back to creation time and
+ * then id, so zones only move when the sorted value itself changes.
+ */
+export const filterAndSortZones = (
+  rooms: Zone[],
+  filter: ZoneFilter,
+  sort: ZoneSort,
+  coords: { lat: number; lng: number } | null
+): Zone[] => {
+  const query = filter.query.trim().toUpperCase();
+  const distance = (room: Zone) => coords && room.geocell ? distanceToGeocell(coords.lat, coords.lng, room.geocell) : Infinity;
+  const compare: Record<ZoneSort, (a: Zone, b: Zone) => number> = {
+    distance: (a, b) => distance(a) - distance(b),
+    members: (a, b) => b.userCount - a.userCount,
+    timeLeft: (a, b) => b.expiresAt - a.expiresAt,
+    newest: (a, b) => b.createdAt - a.createdAt,
+  };
+
+  return rooms
+    .filter(room => !query || room.name.toUpperCase().includes(query))
+    .filter(room => filter.type === 'all' || room.type === filter.type)
+    .filter(room => !filter.hasRoom || room.memberCap === null || room.userCount < room.memberCap)
+    .sort((a, b) => compare[sort](a, b) || a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+};
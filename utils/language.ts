@@ -0,0 +1,76 @@
+import { TRANSLATION_LANGUAGES } from '../constants';
+
+// Scripts used by a single language in our list map straight to it.
+const SCRIPTS: { pattern: RegExp; code: string }[] = [
+  { pattern: /[぀-ヿ]/g, code: 'ja' },
+  { pattern: /[가-힯]/g, code: 'ko' },
+  { pattern: /[一-鿿]/g, code: 'zh' },
+  { pattern: /[Ѐ-ӿ]/g, code: 'ru' },
+  { pattern: /[؀-ۿ]/g, code: 'ar' },
+  { pattern: /[ऀ-ॿ]/g, code: 'hi' },
+  { pattern: /[Ͱ-Ͽ]/g, code: 'el' },
+  { pattern: /[֐-׿]/g, code: 'he' },
+  { pattern: /[฀-๿]/g, code: 'th' },
+];
+
+// Frequent short words that tell Latin-script languages apart.
+const LATIN_MARKERS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'you', 'are', 'what', 'this', 'have', 'with', 'where', 'anyone', 'here'],
+  es: ['el', 'la', 'los', 'que', 'es', 'y', 'por', 'con', 'dónde', 'hay', 'alguien', 'está', 'aquí'],
+  fr: ['le', 'la', 'les', 'est', 'et', 'je', 'vous', 'pour', 'avec', 'où', 'quelqu', 'ici', 'des'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'mit', 'wo', 'jemand', 'hier', 'ein'],
+  it: ['il', 'che', 'è', 'e', 'per', 'con', 'non', 'dove', 'qualcuno', 'qui', 'sono', 'gli'],
+  pt: ['o', 'que', 'é', 'e', 'não', 'com', 'para', 'onde', 'alguém', 'aqui', 'você', 'uma'],
+  nl: ['de', 'het', 'een', 'en', 'is', 'ik', 'niet', 'met', 'waar', 'iemand', 'hier', 'jij'],
+};
+
+const MIN_LATIN_HITS = 2;
+
+/**
+ * Best-effort on-device language guess. Returns null when the text is too short or ambiguous
+ * to tell; callers then leave the decision to the translator.
+ */
+export const detectLanguage = (text: string): string | null => {
+  const letters = text.replace(/[\s\d\p{P}\p{S}]/gu, '').length;
+  if (letters === 0) return null;
+  for (const { pattern, code } of SCRIPTS) {
+    if ((text.match(pattern) || []).length / letters > 0.3) return code;
+  }
+
+  const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+  let best: string | null = null;
+  let bestHits = 0;
+  let tied = false;
+  for (const [code, markers] of Object.entries(LATIN_MARKERS)) {
+    const hits = words.filter(word => markers.includes(word)).length;
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+      tied = false;
+    } else if (hits === bestHits && hits > 0) {
+      tied = true;
+    }
+  }
+  return bestHits >= MIN_LATIN_HITS && !tied ? best : null;
+};
+
+/** Primary subtag of a BCP-47 tag, e.g. `pt-BR` -> `pt`. */
+export const baseLanguage = (tag: string): string => tag.split('-')[0].toLowerCase();
+
+/**
+ * Initial translation target: the browser language if we offer it, else English.
+ */
+export const getDefaultLanguage = (): string => {
+  const browser = baseLanguage(typeof navigator !== 'undefined' ? navigator.language || 'en' : 'en');
+  return TRANSLATION_LANGUAGES.some(lang => lang.code === browser) ? browser : 'en';
+};
+
+export const getLanguageLabel = (code: string): string => {
+  const known = TRANSLATION_LANGUAGES.find(lang => lang.code === code);
+  if (known) return known.label;
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
@@ -1,3 +1,4 @@
+import { GEOCELL_PRECISION } from '../constants';
 
 /**
  * Calculates the distance between two coordinates using the Haversine formula.
@@ -14,6 +15,133 @@ export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2
   return R * c;
 };
 
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOCELL_PATTERN = /^[0-9b-hjkmnp-z]{1,12}$/;
+
+/**
+ * Whether a string is a geohash this app can decode. Geocells arrive from the network and from
+ * deep links, so they are checked before anything decodes them.
+ */
+export const isValidGeocell = (cell: string): boolean => GEOCELL_PATTERN.test(cell);
+
+/**
+ * Encodes a coordinate as a geohash. Short prefixes describe large cells, which is what
+ * discovery publishes instead of precise coordinates.
+ */
+export const encodeGeohash = (lat: number, lng: number, precision = GEOCELL_PRECISION): string => {
+  let latRange = [-90, 90];
+  let lngRange = [-180, 180];
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (value >= mid) {
+      ch = (ch << 1) | 1;
+      range[0] = mid;
+    } else {
+      ch = ch << 1;
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+    if (++bit === 5) {
+      hash += GEOHASH_BASE32[ch];
+      bit = 0;
+      ch = 0;
+    }
+  }
+  return hash;
+};
+
+/**
+ * Geohash length to publish for a zone of the given radius. Small zones need a finer cell or they
+ * would be listed kilometres away; their members learn little more, since they are that close anyway.
+ */
+export const getGeocellPrecision = (radiusKm: number): number => {
+  if (radiusKm >= 5) return GEOCELL_PRECISION; // ~4.9 km cells
+  if (radiusKm >= 1) return GEOCELL_PRECISION + 1; // ~1.2 x 0.6 km
+  return GEOCELL_PRECISION + 2; // ~150 m
+};
+
+/**
+ * Decodes a geohash into the center of its cell plus the half-extent of the cell in degrees.
+ */
+export const decodeGeohash = (hash: string): { lat: number; lng: number; latErr: number; lngErr: number } => {
+  let latRange = [-90, 90];
+  let lngRange = [-180, 180];
+  let evenBit = true;
+
+  for (const c of hash.toLowerCase()) {
+    const idx = GEOHASH_BASE32.indexOf(c);
+    if (idx === -1) throw new Error(`Invalid geohash character: ${c}`);
+    for (let n = 4; n >= 0; n--) {
+      const bitN = (idx >> n) & 1;
+      const range = evenBit ? lngRange : latRange;
+      const mid = (range[0] + range[1]) / 2;
+      if (bitN === 1) range[0] = mid; else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+  return {
+    lat: (latRange[0] + latRange[1]) / 2,
+    lng: (lngRange[0] + lngRange[1]) / 2,
+    latErr: (latRange[1] - latRange[0]) / 2,
+    lngErr: (lngRange[1] - lngRange[0]) / 2,
+  };
+};
+
+/**
+ * Distance from a precise position to the center of a geocell, in km, or Infinity for a cell that
+ * does not decode. This is the only zone distance clients can compute; the host's exact position is never known.
+ */
+export const distanceToGeocell = (lat: number, lng: number, cell: string): number => {
+  if (!isValidGeocell(cell)) return Infinity;
+  const center = decodeGeohash(cell);
+  return calculateDistance(lat, lng, center.lat, center.lng);
+};
+
+/**
+ * Half-diagonal of a geocell in km, i.e. how far the real zone center may sit from the cell center.
+ */
+export const getGeocellUncertaintyKm = (cell: string): number => {
+  const { lat, latErr, lngErr } = decodeGeohash(cell);
+  return calculateDistance(lat - latErr, -lngErr, lat + latErr, lngErr) / 2;
+};
+
+/**
+ * Whether a zone published under `cell` may contain the given position, allowing for cell uncertainty.
+ * A cell that does not decode is never in reach.
+ */
+export const isWithinGeocellReach = (lat: number, lng: number, cell: string, radiusKm: number): boolean => {
+  if (!isValidGeocell(cell)) return false;
+  return distanceToGeocell(lat, lng, cell) <= radiusKm + getGeocellUncertaintyKm(cell);
+};
+
+/**
+ * Offset of a point from an origin in km (x east, y north). Flat-earth approximation, fine at zone scale.
+ */
+export const projectToLocalKm = (originLat: number, originLng: number, lat: number, lng: number): { x: number; y: number } => ({
+  x: (lng - originLng) * 111.32 * Math.cos(originLat * Math.PI / 180),
+  y: (lat - originLat) * 110.57,
+});
+
+/**
+ * Where to draw a zone on a map: somewhere inside its geocell, picked from the zone id so it stays put
+ * between pulses and zones sharing a cell do not stack. It reveals nothing beyond the cell itself.
+ */
+export const getFuzzedGeocellPosition = (cell: string, seed: string): { lat: number; lng: number } => {
+  const { lat, lng, latErr, lngErr } = decodeGeohash(cell);
+  let hash = 0;
+  for (const c of seed) hash = (hash * 31 + c.charCodeAt(0)) | 0;
+  const u = ((hash & 0xffff) / 0xffff) * 2 - 1;
+  const v = (((hash >>> 16) & 0xffff) / 0xffff) * 2 - 1;
+  return { lat: lat + u * latErr * 0.6, lng: lng + v * lngErr * 0.6 };
+};
+
 export const getDistanceLabel = (km: number): string => {
   if (km < 0.5) return "VERY NEAR";
   if (km < 2.0) return "NEAR";
@@ -21,6 +149,11 @@ export const getDistanceLabel = (km: number): string => {
   return "DISTANT";
 };
 
+/**
+ * Short label for a zone radius, e.g. `200M` or `10KM`.
+ */
+export const getRadiusLabel = (km: number): string => km < 1 ? `${Math.round(km * 1000)}M` : `${km}KM`;
+
 export const getCurrentPosition = (): Promise<GeolocationPosition> => {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
@@ -1,9 +1,10 @@
+import { MAX_MEDIA_SIZE_MB } from '../constants';
+import { MediaPolicy, MediaType } from '../types';
 
 /**
- * Compresses an image file using Canvas to ensure it stays under the MQTT payload limit.
- * Supports aggressive quality reduction for very large files.
+ * Re-encodes an image file as JPEG using Canvas to keep transfers small.
  */
-export const compressImage = (file: File, maxW = 1024, maxH = 1024): Promise<string> => {
+export const compressImage = (file: File, maxW = 1600, maxH = 1600): Promise<Blob> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -34,8 +35,7 @@ export const compressImage = (file: File, maxW = 1024, maxH = 1024): Promise<str
         
         ctx.drawImage(img, 0, 0, width, height);
         
-        // Start with 0.7 quality, if still too big, ChatRoom will handle it or we could loop here.
-        resolve(canvas.toDataURL('image/jpeg', 0.7));
+        canvas.toBlob(blob => blob ? resolve(blob) : reject('Canvas encoding failed'), 'image/jpeg', 0.8);
       };
       img.onerror = reject;
     };
@@ -60,22 +60,17 @@ export const getSupportedVideoMimeType = () => {
 };
 
 /**
- * Converts a Blob/File to Base64 string.
+ * Per-attachment size cap in MB: VITE_MAX_MEDIA_SIZE_MB when set, MAX_MEDIA_SIZE_MB otherwise.
  */
-export const fileToBase64 = (file: Blob | File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
-  });
+export const getMaxMediaSizeMb = (): number => {
+  const configured = Number(import.meta.env.VITE_MAX_MEDIA_SIZE_MB);
+  return configured > 0 ? configured : MAX_MEDIA_SIZE_MB;
 };
 
+export const isWithinMediaLimit = (item: { size: number }): boolean => item.size <= getMaxMediaSizeMb() * 1024 * 1024;
+
 /**
- * Validates if the Base64 string is within the safe limit for MQTT (approx 1MB).
+ * Whether a zone's media policy lets a message of this type through.
  */
-export const isSafePayloadSize = (base64String: string, limitMb = 0.95): boolean => {
-  // Base64 is ~1.33x the size of binary.
-  const sizeInBytes = (base64String.length * 3) / 4;
-  return sizeInBytes < limitMb * 1024 * 1024;
-};
+export const isMediaAllowed = (policy: MediaPolicy, type: MediaType): boolean =>
+  type === 'text' || policy === 'all' || (policy === 'images' && type === 'image');
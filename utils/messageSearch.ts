@@ -0,0 +1,71 @@
+import { MediaType, Message } from '../types';
+
+export interface MessageSearchQuery {
+  text: string;
+  sender: string;
+  type: MediaType | 'all';
+  /** Only messages newer than this many milliseconds; null for the whole buffer. */
+  withinMs: number | null;
+}
+
+interface IndexEntry {
+  /** Changes whenever a searchable field of the message changes. */
+  version: string;
+  haystack: string;
+  sender: string;
+  type: MediaType;
+  timestamp: number;
+}
+
+/** Searchable extras kept outside the message itself, such as on-device captions and translations. */
+export type SearchExtras = (msg: Message) => string[];
+
+const fold = (value: string): string => value.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Split on whitespace; every term must appear somewhere in the message for it to match.
+ */
+export const searchTerms = (text: string): string[] => fold(text).split(/\s+/).filter(Boolean);
+
+/**
+ * In-memory index over the message buffer. `sync` only re-indexes messages that are new or
+ * whose searchable fields changed, so live appends and history merges stay cheap.
+ */
+export class MessageSearchIndex {
+  private entries = new Map<string, IndexEntry>();
+  private order: string[] = [];
+
+  sync(messages: Message[], extras: SearchExtras = () => []) {
+    const seen = new Set<string>();
+    messages.forEach(msg => {
+      if (msg.isSystem) return;
+      seen.add(msg.id);
+      const extra = extras(msg);
+      const version = [msg.text, msg.transcript, ...extra].join('\u0000');
+      if (this.entries.get(msg.id)?.version === version) return;
+      this.entries.set(msg.id, {
+        version,
+        haystack: fold([msg.text, msg.transcript, ...extra].filter(Boolean).join(' ')),
+        sender: fold(msg.sender),
+        type: msg.type,
+        timestamp: msg.timestamp,
+      });
+    });
+    this.entries.forEach((_, id) => { if (!seen.has(id)) this.entries.delete(id); });
+    this.order = messages.filter(m => seen.has(m.id)).map(m => m.id);
+  }
+
+  /** Ids of matching messages in buffer order. An empty query matches nothing. */
+  search(query: MessageSearchQuery, now = Date.now()): string[] {
+    const terms = searchTerms(query.text);
+    const sender = fold(query.sender.trim());
+    if (terms.length === 0 && !sender && query.type === 'all' && query.withinMs === null) return [];
+    return this.order.filter(id => {
+      const entry = this.entries.get(id)!;
+      if (query.type !== 'all' && entry.type !== query.type) return false;
+      if (query.withinMs !== null && now - entry.timestamp > query.withinMs) return false;
+      if (sender && !entry.sender.includes(sender)) return false;
+      return terms.every(term => entry.haystack.includes(term));
+    });
+  }
+}
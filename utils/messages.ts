@@ -0,0 +1,55 @@
+import { Message, MessageReference, ReactionRecord } from '../types';
+import { HISTORY_PAGE_SIZE, HISTORY_WINDOW_SIZE, MAX_REACTIONS_PER_MESSAGE } from '../constants';
+
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Builds the quoted snapshot stored on a reply.
+ */
+export const toMessageReference = (msg: Message): MessageReference => ({
+  id: msg.id,
+  sender: msg.sender,
+  preview: msg.type === 'text'
+    ? (msg.text || '').slice(0, PREVIEW_LENGTH)
+    : `[${msg.type.toUpperCase()}]`,
+});
+
+/**
+ * Applies one member's reaction toggle. Each emoji and member keeps only the newest toggle,
+ * so replays and stale history cannot undo a later change.
+ */
+export const applyReaction = (reactions: ReactionRecord[] = [], record: ReactionRecord): ReactionRecord[] => {
+  const current = reactions.find(r => r.emoji === record.emoji && r.senderId === record.senderId);
+  if (current ? current.issuedAt >= record.issuedAt : reactions.length >= MAX_REACTIONS_PER_MESSAGE) return reactions;
+  return [...reactions.filter(r => r !== current), record];
+};
+
+/**
+ * Merges reactions from history into the ones we hold, newest toggle winning per emoji and member.
+ */
+export const mergeReactions = (a: ReactionRecord[] = [], b: ReactionRecord[] = []): ReactionRecord[] =>
+  b.reduce((merged, record) => applyReaction(merged, record), a);
+
+/**
+ * Emoji -> fingerprints of the members whose latest toggle is active, in order of first use.
+ */
+export const groupReactions = (reactions: ReactionRecord[] = []): Record<string, string[]> => {
+  const grouped: Record<string, string[]> = {};
+  reactions.forEach(r => {
+    if (r.active) (grouped[r.emoji] ??= []).push(r.senderId);
+  });
+  return grouped;
+};
+
+/**
+ * Picks the history page to send for a request: the newest messages inside the sync window
+ * that the requester does not hold yet, oldest first.
+ */
+export const selectHistoryPage = (messages: Message[], known: string[]): { page: Message[]; more: boolean } => {
+  const held = new Set(known);
+  const candidates = messages
+    .filter(m => !m.isSystem)
+    .slice(-HISTORY_WINDOW_SIZE)
+    .filter(m => !held.has(m.id));
+  return { page: candidates.slice(-HISTORY_PAGE_SIZE), more: candidates.length > HISTORY_PAGE_SIZE };
+};
@@ -0,0 +1,38 @@
+/**
+ * A token bucket allows `burst` events at once and gives one token back every `refillMs`.
+ */
+export interface RateLimit {
+  burst: number;
+  refillMs: number;
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export const createBucket = (limit: RateLimit, now = Date.now()): TokenBucket => ({ tokens: limit.burst, updatedAt: now });
+
+const refill = (bucket: TokenBucket, limit: RateLimit, now: number) => {
+  bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) / limit.refillMs);
+  bucket.updatedAt = now;
+};
+
+/**
+ * Takes `cost` tokens if the bucket holds them. Costs above the burst are capped so they can still pass.
+ */
+export const takeTokens = (bucket: TokenBucket, limit: RateLimit, cost = 1, now = Date.now()): boolean => {
+  refill(bucket, limit, now);
+  const needed = Math.min(cost, limit.burst);
+  if (bucket.tokens < needed) return false;
+  bucket.tokens -= needed;
+  return true;
+};
+
+/**
+ * Milliseconds until `takeTokens` with the same cost would succeed.
+ */
+export const msUntilTokens = (bucket: TokenBucket, limit: RateLimit, cost = 1, now = Date.now()): number => {
+  refill(bucket, limit, now);
+  return Math.max(0, Math.ceil((Math.min(cost, limit.burst) - bucket.tokens) * limit.refillMs));
+};
@@ -0,0 +1,72 @@
+import { Message } from '../types';
+
+/** Shape sent to a summarizer: one line per message, media reduced to a caption. */
+export interface SummaryLine {
+  id: string;
+  sender: string;
+  text: string;
+  replyToId?: string;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'this', 'that', 'with', 'they', 'from', 'what', 'when', 'will', 'just', 'your', 'there', 'here',
+  'about', 'would', 'could', 'should', 'been', 'were', 'then', 'them', 'than', 'into', 'some', 'like', 'its',
+  'also', 'how', 'who', 'why', 'yes', 'yeah', 'lol', 'okay', 'get', 'got', 'she', 'him', 'his', 'did', 'does',
+]);
+
+/**
+ * Reduces a message to the line a summary works from. Attachments become a caption of their type,
+ * plus any text that came with them and a voice note's transcript.
+ */
+export const toSummaryLine = (msg: Message): SummaryLine => {
+  const caption = msg.type === 'text' ? '' : `[${msg.type === 'audio' ? 'VOICE NOTE' : msg.type.toUpperCase()}]`;
+  return {
+    id: msg.id,
+    sender: msg.sender,
+    text: [caption, msg.text || '', msg.transcript ? `"${msg.transcript}"` : ''].filter(Boolean).join(' '),
+    replyToId: msg.replyTo?.id,
+  };
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2 && !STOPWORDS.has(word));
+
+/**
+ * Questions nobody has replied to yet, newest last.
+ */
+export const findOpenQuestions = (lines: SummaryLine[], limit: number): string[] => {
+  const answered = new Set(lines.map(line => line.replyToId).filter(Boolean));
+  return lines
+    .filter(line => line.text.trim().endsWith('?') && !answered.has(line.id))
+    .slice(-limit)
+    .map(line => `${line.sender}: ${line.text.trim()}`);
+};
+
+/**
+ * Deterministic offline summary: scores each line by how often its words occur across the
+ * conversation and keeps the top lines in their original order.
+ */
+export const summarizeExtractively = (lines: SummaryLine[], maxPoints: number): string[] => {
+  const frequency = new Map<string, number>();
+  lines.forEach(line => new Set(tokenize(line.text)).forEach(word => frequency.set(word, (frequency.get(word) || 0) + 1)));
+
+  const scored = lines
+    .map((line, index) => {
+      const words = tokenize(line.text);
+      const score = words.length === 0 ? 0 : words.reduce((sum, word) => sum + (frequency.get(word) || 0), 0) / Math.sqrt(words.length);
+      return { line, index, score };
+    })
+    .filter(entry => entry.score > 0);
+
+  const senders = new Set(lines.map(line => line.sender));
+  const overview = `${lines.length} messages from ${senders.size} ${senders.size === 1 ? 'member' : 'members'}`;
+  return [
+    overview,
+    ...scored
+      .sort((a, b) => b.score - a.score || b.index - a.index)
+      .slice(0, Math.max(0, maxPoints - 1))
+      .sort((a, b) => a.index - b.index)
+      .map(({ line }) => `${line.sender}: ${line.text.length > 140 ? `${line.text.slice(0, 139)}…` : line.text}`),
+  ];
+};
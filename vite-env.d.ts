@@ -0,0 +1,30 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated broker WebSocket URLs, tried in order. */
+  readonly VITE_BROKER_URLS?: string;
+  readonly VITE_BROKER_USERNAME?: string;
+  readonly VITE_BROKER_PASSWORD?: string;
+  /** Topic namespace, e.g. `locuschat/v2`. */
+  readonly VITE_TOPIC_PREFIX?: string;
+  /** Set to `false` to accept self-signed certificates (Node-based clients only; browsers enforce TLS themselves). */
+  readonly VITE_BROKER_REJECT_UNAUTHORIZED?: string;
+  /** Per-attachment size cap in MB (default 20). */
+  readonly VITE_MAX_MEDIA_SIZE_MB?: string;
+  /** Optional `{z}/{x}/{y}` map tile URL template drawn under the discovery radar. */
+  readonly VITE_MAP_TILE_URL?: string;
+  /** Base URL of the Gemini proxy (`npm run server`), e.g. `http://localhost:8787`. Unset disables Gemini. */
+  readonly VITE_GEMINI_PROXY_URL?: string;
+  /** Comma-separated extra terms for the local moderation wordlist. */
+  readonly VITE_MODERATION_BLOCKLIST?: string;
+  /** `closed` blocks outgoing messages when the remote moderation stage fails; `open` (default) lets them through. */
+  readonly VITE_MODERATION_FAIL_MODE?: string;
+  /** Set to `false` to stop the local rules from flagging links (default on). */
+  readonly VITE_MODERATION_BLOCK_LINKS?: string;
+  /** Set to `false` to stop the local rules from flagging phone numbers (default on). */
+  readonly VITE_MODERATION_BLOCK_PHONES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}